@@ -5,20 +5,39 @@
 
 import { useEffect, useRef, useState, CSSProperties, useMemo } from 'react'
 import solarParams from '../info/solar-params.json'
+import missionData from '../info/missions.json'
+import tourData from '../info/tours.json'
 import { createScene, createSolarCamera, createRenderer, createControls, setEquirectangularSkybox } from '../lib/three/setupScene'
+import { assetLoader, type AssetProgress } from '../lib/three/assetLoader'
+import { getDefaultQualityTier, getQualitySettings, setQualityTier, type QualityTier } from '../lib/three/quality'
 import { updateSolarSystem } from '../lib/three/tick'
-import { createSolarSystemObjects, PLANET_SPREAD as INIT_PLANET_SPREAD } from '../lib/three/solarSystem'
-import { getSolarSystemScales } from '../lib/three/scaling'
+import { createSolarSystemObjects, getOrbitingBodies, getSceneScale, applySceneScale, getBodySceneRadius, PLANET_SPREAD as INIT_PLANET_SPREAD } from '../lib/three/solarSystem'
+import { getSolarSystemScales, DEFAULT_TRUE_SCALE_MAGNIFICATION, type ScaleMode } from '../lib/three/scaling'
+import { ScaleTransition } from '../lib/three/scaleTransition'
+import { getScaleBar, type ScaleBar } from '../lib/three/scaleBar'
+import { createWorldRoot, updateFloatingOrigin } from '../lib/three/floatingOrigin'
+import { ReferenceFrame, toHeliocentric } from '../lib/three/referenceFrame'
+import { TrailManager, DEFAULT_TRAIL_SETTINGS, type TrailSettings } from '../lib/three/trails'
+import { PickingLayer } from '../lib/three/picking'
+import { createBelts, updateBelts, setBeltDistanceScale } from '../lib/three/belts'
+import { createMissionObjects, updateMission } from '../lib/three/missions'
+import { createSunLight, createAmbientLight, setLightingMode, setAlternateSurfaces } from '../lib/three/lighting'
+import { SimulationClock, type TimeCommand } from '../lib/three/simulationClock'
+import { TourPlayer, type Tour } from '../lib/three/tour'
+import { CameraModeController, DEFAULT_CAMERA_MODE_SETTINGS, type CameraModeSettings } from '../lib/three/cameraModes'
 import { handleResize } from '../lib/three/resize'
 import Overlay from '../components/Overlay'
+import TimeControls from '../components/TimeControls'
+import TourControls from '../components/TourControls'
 import { Clock } from 'three'
 import ProgressIndicator from '../components/ui/ProgressIndicator'
-import { LabelManager, LABEL_FONT_SIZE, LABEL_PADDING } from '../lib/three/labels'
+import { LabelManager } from '../lib/three/labels'
+import { getBodyDetails } from '../lib/three/bodyDetails'
 import { cleanupThreeScene } from '../lib/three/cleanup'
-import { setupSolarSystemGUI } from '../lib/three/gui'
+import { setupSolarSystemGUI, type FocusTarget } from '../lib/three/gui'
 import usePalmPause from '../hooks/usePalmPause'
 import * as THREE from 'three'
-import { initObjectTrackingCamera, focusOnObject, updateTrackingCamera, resetCamera } from '../lib/three/objectTrackingCamera'
+import { initObjectTrackingCamera, focusOnObject, updateTrackingCamera, resetCamera, clearTracking, getTrackingMotion, trackingCameraEvents, type CameraTransitionEvent } from '../lib/three/objectTrackingCamera'
 import PalmPauseDebugOverlay from '../components/PalmPauseDebugOverlay'
 import ToggleImageSwitch from '../components/ui/toggle-image-switch'
 import { VoiceService } from '../lib/services/realtime-api-service'
@@ -27,7 +46,9 @@ import { EarthCesiumIntegration } from '../components/cesium/EarthCesiumIntegrat
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
-import { createRadialBlurPass, setRadialBlurCenter } from '../lib/three/postprocessingEffects';
+import { createRadialBlurPass, setRadialBlurSamples, updateRadialBlurFromMotion } from '../lib/three/postprocessingEffects';
+import { createEffectStack, applyEffectSettings, updateEffectStack, DEFAULT_EFFECT_SETTINGS, EFFECT_SETTINGS_STORAGE_KEY, type EffectSettings } from '../lib/three/effectStack'
+import { loadSettings, saveSettings } from '../lib/utils/storage'
 
 // --- TYPES ---
 interface FocusedEarthDetails {
@@ -36,11 +57,14 @@ interface FocusedEarthDetails {
 }
 
 // --- CONSTANTS ---
-const TIME_MULTIPLIER = 1e5
 const SKYBOX_TEXTURE_PATH = '/textures/stars/8k_stars_milky_way.jpg'
+const CRITICAL_ASSETS_TIMEOUT_MS = 10000 // Longest wait for the skybox and body textures before the first frame
+const MS_PER_SECOND = 1000 // Converts performance.now() to seconds for effect animation
 const CANVAS_CLASSNAME = 'webgl'
 const CANVAS_STYLE: CSSProperties = { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', display: 'block' }
 const CONTAINER_STYLE: CSSProperties = { position: 'relative', width: '100vw', height: '100vh' }
+const SCALE_BAR_INTERVAL_MS = 250 // How often the overlay scale bar is recomputed for the camera view
+const TOURS: Tour[] = tourData.tours
 
 // --- MAIN PAGE COMPONENT ---
 export default function Home() {
@@ -52,15 +76,27 @@ export default function Home() {
   // --- STATE ---
   // State for controlling planet spread (distance between planets)
   const [planetSpread, setPlanetSpread] = useState(INIT_PLANET_SPREAD)
+  // Quality tier (texture sizes, geometry detail, pixel ratio, post-processing): from the device class, overridable in the GUI
+  const [quality, setQuality] = useState<QualityTier>(() => getDefaultQualityTier())
   // State for tracking the currently focused planet for facts overlay
   const [focusedPlanet, setFocusedPlanet] = useState<string | null>(null)
-  // Multiplier to speed up time for visible spin and orbit animations
-  const timeMultiplier = TIME_MULTIPLIER
-  // GUI options for pausing orbit and spin
-  const guiOptions = useRef({ orbitPaused: false, spinPaused: false })
-  // State for skybox loading progress and visibility
-  const [skyboxProgress, setSkyboxProgress] = useState(0)
-  const [skyboxLoading, setSkyboxLoading] = useState(true)
+  // Scaling mode and true-scale magnification (read by the scene, mirrored in state for the overlay)
+  const scaleOptions = useRef<{ mode: ScaleMode; magnification: number }>({ mode: 'hybrid', magnification: DEFAULT_TRUE_SCALE_MAGNIFICATION })
+  const [scaleSettings, setScaleSettings] = useState(scaleOptions.current)
+  const [scaleBar, setScaleBar] = useState<ScaleBar | null>(null)
+  // Visual effect settings, restored from the previous visit (read from storage on the first render only)
+  const [storedEffectSettings] = useState(() => loadSettings(EFFECT_SETTINGS_STORAGE_KEY, DEFAULT_EFFECT_SETTINGS))
+  const effectSettings = useRef<EffectSettings>(storedEffectSettings)
+  const trailSettings = useRef<TrailSettings>({ ...DEFAULT_TRAIL_SETTINGS })
+  const cameraModeSettings = useRef<CameraModeSettings>({ ...DEFAULT_CAMERA_MODE_SETTINGS })
+  // GUI options for pausing spin and for sun lighting (unlit by default on mobile, where it is cheaper)
+  const guiOptions = useRef({ spinPaused: false, realisticLighting: typeof window === 'undefined' || !isMobile(), alternateSurfaces: false, referenceFrame: solarParams.sun.name })
+  // Shared simulation clock (date, rate, play/pause, direction), starting at "now"
+  const [simulationClock] = useState(() => new SimulationClock())
+  // Guided tour player, connected to each new scene
+  const [tourPlayer] = useState(() => new TourPlayer(simulationClock))
+  // Loading progress of all assets (skybox and body textures)
+  const [assetProgress, setAssetProgress] = useState<AssetProgress>(assetLoader.progress)
   // State for enabling/disabling hand gestures
   const [handGesturesEnabled, setHandGesturesEnabled] = useState(false)
   // State for enabling/disabling voice mode
@@ -70,7 +106,7 @@ export default function Home() {
   const [isMobileDevice, setIsMobileDevice] = useState(false)
   const [focusedEarthDetails, setFocusedEarthDetails] = useState<FocusedEarthDetails | null>(null)
   const voiceServiceRef = useRef<VoiceService | null>(null)
-  const focusTargetsRef = useRef<{ name: string; mesh: THREE.Object3D }[]>([])
+  const focusTargetsRef = useRef<FocusTarget[]>([])
   const spinControllerRef = useRef<{ updateDisplay: () => void } | null>(null)
   const [hardStopWarning, setHardStopWarning] = useState<string | null>(null)
   // Refs for Cesium integration
@@ -82,9 +118,8 @@ export default function Home() {
   const composerRef = useRef<EffectComposer | null>(null);
   const radialBlurPassRef = useRef<ShaderPass | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  // State to control blur from other components - REMOVED (not used dynamically anymore)
-  // const [blurStrength, setBlurStrength] = useState(0.0);
-  const [blurCenter] = useState(new THREE.Vector2(0.5, 0.5));
+  // The Earth transition drives the radial blur itself while it runs
+  const earthTransitionActive = useRef(false);
 
   // Detect mobile after hydration to prevent SSR mismatch
   useEffect(() => {
@@ -137,15 +172,16 @@ export default function Home() {
       height: window.innerHeight,
     }
 
+    // Objects, textures and the renderer below are created for this tier
+    setQualityTier(quality)
+
     // Create Three.js scene
     const scene = createScene()
-    // Set up skybox with progress and loading callbacks
-    setEquirectangularSkybox(
-      scene,
-      SKYBOX_TEXTURE_PATH,
-      (progress) => setSkyboxProgress(progress),
-      () => setSkyboxLoading(false)
-    )
+    // Report loading progress of every asset (skybox, body textures)
+    const onAssetProgress = (progress: AssetProgress) => setAssetProgress(progress)
+    assetLoader.on('progress', onAssetProgress)
+    // Set up skybox (a critical asset)
+    setEquirectangularSkybox(scene, SKYBOX_TEXTURE_PATH)
     // Create camera and set to angled view
     const camera = createSolarCamera(sizes.width, sizes.height)
     scene.add(camera)
@@ -163,106 +199,265 @@ export default function Home() {
     // Clock for animation timing
     const clock = new Clock()
 
-    // Post-processing
+    // --- SOLAR SYSTEM OBJECTS ---
+    // Calculate scaling factors for solar system objects in the selected mode
+    const getScales = () => getSolarSystemScales(solarParams, scaleOptions.current.mode, scaleOptions.current.magnification)
+    const scales = getScales()
+    // Body radii and heliocentric distance → scene distance, shared by orbit lines and planet motion;
+    // eased when the scaling mode changes
+    const scaleTransition = new ScaleTransition(getSceneScale(solarParams, scales, planetSpread))
+    // Create meshes for the sun, planets, dwarf planets and comets
+    const meshes = createSolarSystemObjects(
+      { sun: solarParams.sun, planets: solarParams.planets, dwarf_planets: solarParams.dwarf_planets, comets: solarParams.comets },
+      scales,
+      planetSpread,
+      simulationClock.daysSinceJ2000
+    )
+    const sunMesh = meshes.find(m => m.name === solarParams.sun.name)!
+    // Add all meshes to the reference frame, which keeps the chosen body (the Sun by default) at
+    // the origin of the world root, itself re-centered on the tracked object (floating origin)
+    const world = createWorldRoot(scene)
+    const frame = new ReferenceFrame(world, meshes.find(m => m.name === guiOptions.current.referenceFrame) ?? sunMesh)
+    meshes.forEach(mesh => frame.root.add(mesh))
+    frame.update()
+    // Sunlight: a point light inside the Sun plus a faint ambient fill
+    const sunLight = createSunLight(getQualitySettings().shadowMapSize)
+    sunMesh.add(sunLight)
+    scene.add(createAmbientLight())
+    const applyLighting = (lit: boolean) => {
+      setLightingMode(meshes, lit)
+      sunLight.castShadow = lit
+    }
+    applyLighting(guiOptions.current.realisticLighting)
+
+    // Post-processing: bloom, lens flare, radial blur (Earth transition), grain/vignette
     const composer = new EffectComposer(renderer);
     composer.addPass(new RenderPass(scene, camera));
+    // Labelled bodies (planets, dwarf planets, comets, moons) can hide the Sun from the lens flare
+    const effects = createEffectStack(sunMesh, sizes.width, sizes.height, meshes.filter(m => m !== sunMesh && m.userData.labelCategory));
+    composer.addPass(effects.bloom);
+    composer.addPass(effects.lensFlare);
     const radialBlurPass = createRadialBlurPass();
+    // Low tiers skip the effect passes: the render pass then draws straight to the screen
+    radialBlurPass.enabled = getQualitySettings().postProcessing;
+    setRadialBlurSamples(radialBlurPass, getQualitySettings().radialBlurSamples);
     composer.addPass(radialBlurPass);
+    composer.addPass(effects.grainVignette);
     composerRef.current = composer;
     radialBlurPassRef.current = radialBlurPass;
-
-    // --- SOLAR SYSTEM OBJECTS ---
-    // Calculate scaling factors for solar system objects
-    const scales = getSolarSystemScales(solarParams)
-    // Create meshes for the sun and planets
-    const meshes = createSolarSystemObjects(
-      { sun: solarParams.sun, planets: solarParams.planets },
-      scales,
-      planetSpread
-    )
-    // Add all meshes to the scene
-    meshes.forEach(mesh => scene.add(mesh))
+    const applyEffects = () => {
+      applyEffectSettings(effects, effectSettings.current, getQualitySettings().postProcessing)
+      saveSettings(EFFECT_SETTINGS_STORAGE_KEY, effectSettings.current)
+    }
+    applyEffectSettings(effects, effectSettings.current, getQualitySettings().postProcessing)
+    const applySurfaces = (alternate: boolean) => setAlternateSurfaces(meshes, alternate)
+    applySurfaces(guiOptions.current.alternateSurfaces)
+    // Procedural asteroid and Kuiper belts, on the same distance scale as the planets
+    const belts = createBelts(solarParams.belts, scaleTransition.current.distance)
+    updateBelts(belts, simulationClock.daysSinceJ2000)
+    belts.forEach(belt => frame.root.add(belt))
+    // Spacecraft trajectories replayed with the simulation clock
+    const missions = missionData.missions.map(createMissionObjects)
+    missions.forEach(mission => {
+      updateMission(mission, simulationClock.daysSinceJ2000, scaleTransition.current.distance)
+      frame.root.add(mission.group)
+    })
+    // Trails of the path travelled by the Sun, planets, dwarf planets, comets and moons
+    const trailBodies = [solarParams.sun, ...getOrbitingBodies(solarParams), ...solarParams.planets.flatMap(p => p.moons ?? [])]
+    const trails = new TrailManager(trailBodies.map(body => meshes.find(m => m.name === body.name)!))
+    frame.root.add(trails.group)
+    const applyTrails = () => trails.apply(trailSettings.current, frame.body)
+    applyTrails()
+    const applyFrame = (name: string) => {
+      frame.setBody(meshes.find(m => m.name === name) ?? sunMesh)
+      applyTrails()
+    }
     // Store Earth mesh reference for Cesium integration
     const earthMesh = meshes.find(mesh => mesh.name.toLowerCase() === 'earth')
     if (earthMesh) {
       earthMeshRef.current = earthMesh
     }
-    // Add CSS2D labels for each mesh (planet/sun)
-    labelMgr.addLabelsForMeshes(scene, meshes, { fontSize: LABEL_FONT_SIZE, padding: LABEL_PADDING })
+    // Add CSS2D labels for each body and spacecraft, styled by category
+    labelMgr.addLabelsForMeshes(scene, [...meshes, ...missions.map(m => m.marker)])
     // --- GUI FOR FOCUS CONTROLS ---
-    const focusTargets = [
+    const focusTargets: FocusTarget[] = [
       { name: solarParams.sun.name, mesh: meshes.find(m => m.name === solarParams.sun.name)! },
       ...solarParams.planets.map(p => ({
         name: p.name,
         mesh: meshes.find(m => m.name === p.name)!
       })),
+      ...solarParams.dwarf_planets.map(p => ({
+        name: p.name,
+        mesh: meshes.find(m => m.name === p.name)!,
+        category: 'Dwarf Planets',
+      })),
+      ...solarParams.comets.map(c => ({
+        name: c.name,
+        mesh: meshes.find(m => m.name === c.name)!,
+        category: 'Comets',
+      })),
+      ...missions.map(m => ({ name: m.marker.name, mesh: m.marker, category: 'Missions' })),
+      ...solarParams.planets.flatMap(p => (p.moons ?? []).map(moon => ({
+        name: moon.name,
+        mesh: meshes.find(m => m.name === moon.name)!,
+        category: 'Moons',
+      }))),
     ]
-    const { cleanup: cleanupGUI, spinController } = setupSolarSystemGUI(
-      planetSpread,
-      setPlanetSpread,
-      guiOptions,
-      focusTargets,
-      (name, mesh) => {
-        let radius: number
-        if (mesh instanceof THREE.Group) {
-          // Saturn is a group: get the body child
-          const body = mesh.getObjectByName(`${name}_body`) as THREE.Mesh
-          radius = (body.geometry as any).parameters.radius as number
-        } else {
-          const meshAsMesh = mesh as THREE.Mesh
-          radius = (meshAsMesh.geometry as any).parameters.radius as number
-        }
-        focusOnObject(mesh, radius)
-        setFocusedPlanet(name)
-        if (name.toLowerCase() === 'earth') {
-          setFocusedEarthDetails({ mesh, radiusTjs: radius });
-        } else {
-          setFocusedEarthDetails(null);
-        }
-        // Pause spinning when focusing via GUI control
-        guiOptions.current.spinPaused = true
-        // Reflect in GUI
-        spinController.updateDisplay()
-      },
-      () => {
-        // Smooth reset to initial camera state
-        resetCamera()
-        setFocusedPlanet(null)
+    // Free-fly, chase and surface cameras (orbit mode leaves the camera to the tracker and controls)
+    const cameraModes = new CameraModeController(camera, controls, renderer.domElement, focusTargets, sunMesh)
+    const applyCameraMode = () => cameraModes.apply(cameraModeSettings.current)
+    applyCameraMode()
+    // Focus and reset, from the GUI and from clicks/taps in the canvas
+    const handleFocus = (name: string, mesh: THREE.Object3D) => {
+      tourPlayer.stop()
+      const radius = getBodySceneRadius(mesh)
+      focusOnObject(mesh, radius)
+      setFocusedPlanet(name)
+      if (name.toLowerCase() === 'earth') {
+        setFocusedEarthDetails({ mesh, radiusTjs: radius });
+      } else {
         setFocusedEarthDetails(null);
-        // Resume spinning when resetting focus
-        guiOptions.current.spinPaused = false
-        // Reflect in GUI
-        spinController.updateDisplay()
       }
-    )
+      // Pause spinning when focusing a body
+      guiOptions.current.spinPaused = true
+      // Reflect in GUI
+      spinControllerRef.current?.updateDisplay()
+    }
+    const handleResetCamera = () => {
+      // Smooth reset to initial camera state
+      tourPlayer.stop()
+      cameraModes.exitToOrbit()
+      resetCamera()
+      setFocusedPlanet(null)
+      setFocusedEarthDetails(null);
+      // Resume spinning when resetting focus
+      guiOptions.current.spinPaused = false
+      // Reflect in GUI
+      spinControllerRef.current?.updateDisplay()
+    }
+    // A focus flight the user broke off (by grabbing the controls) or a tour or camera mode took over:
+    // no body is focused any more, so clear the overlay and resume spinning
+    const onCameraCancel = (event: CameraTransitionEvent) => {
+      if (event.kind !== 'focus' || event.reason === 'superseded') return
+      setFocusedPlanet(null)
+      setFocusedEarthDetails(null)
+      guiOptions.current.spinPaused = false
+      spinControllerRef.current?.updateDisplay()
+    }
+    trackingCameraEvents.on('cancel', onCameraCancel)
+    const { cleanup: cleanupGUI, spinController } = setupSolarSystemGUI({
+      view: {
+        planetSpread,
+        setPlanetSpread,
+        quality,
+        setQuality,
+        options: guiOptions,
+        onLightingChange: applyLighting,
+        onSurfaceChange: applySurfaces,
+        frameBodies: trailBodies.map(body => body.name),
+        onFrameChange: applyFrame,
+      },
+      scale: {
+        options: scaleOptions,
+        onChange: () => {
+          // Animate to the new mode instead of rebuilding the scene
+          scaleTransition.start(getSceneScale(solarParams, getScales(), planetSpread))
+          setScaleSettings({ ...scaleOptions.current })
+        },
+      },
+      time: simulationClock,
+      effects: { settings: effectSettings.current, onChange: applyEffects },
+      trails: { settings: trailSettings.current, onChange: applyTrails },
+      camera: { settings: cameraModeSettings.current, onModeChange: applyCameraMode, onReset: handleResetCamera },
+      focus: { targets: focusTargets, onFocus: handleFocus },
+      toggles: [
+        ...belts.map(belt => ({ name: belt.name, object: belt })),
+        ...missions.map(m => ({ name: m.marker.name, object: m.group, category: 'Missions' })),
+        // Hiding a cloud layer reveals the surface below (e.g. Venus)
+        ...meshes.flatMap(mesh => {
+          const clouds = mesh.getObjectByName(`${mesh.name}_clouds`)
+          return clouds ? [{ name: mesh.name, object: clouds, category: 'Clouds' }] : []
+        }),
+      ],
+    })
     // Store refs for voice control
     focusTargetsRef.current = focusTargets
     spinControllerRef.current = spinController
+    // Click/tap a body to focus it, double-click/double-tap empty space to reset
+    const picking = new PickingLayer(renderer.domElement, scene, camera, focusTargets, handleFocus, handleResetCamera)
+    // Guided tours fly between the focus targets
+    tourPlayer.attach(camera, controls, name => focusTargets.find(t => t.name === name)?.mesh, sunMesh)
+    // Labels focus their body on click and show live orbital facts on hover
+    labelMgr.setSelectHandler(mesh => handleFocus(mesh.name, mesh))
+    labelMgr.setDetailsProvider(mesh => getBodyDetails(solarParams, missions, mesh, simulationClock.daysSinceJ2000))
+
+    // --- SCALE BAR ---
+    const scaleBarInterval = window.setInterval(() => {
+      setScaleBar(getScaleBar(scaleTransition.current.distance, camera, toHeliocentric(sunMesh, controls.target), sizes.height))
+    }, SCALE_BAR_INTERVAL_MS)
 
     // --- WINDOW RESIZE HANDLING ---
-    const onResize = () => handleResize(camera, renderer, sizes)
+    const onResize = () => {
+      handleResize(camera, renderer, sizes)
+      // Effect passes (bloom) render at the canvas size
+      composer.setSize(sizes.width, sizes.height)
+    }
     window.addEventListener('resize', onResize)
 
     // --- ANIMATION LOOP ---
+    // The first frame waits for the critical assets, so textures do not pop in
+    let assetsReady = false
+    assetLoader.whenCriticalReady(CRITICAL_ASSETS_TIMEOUT_MS).then(() => { assetsReady = true })
     let frameId: number
     const tick = () => {
-      // Calculate time delta (scaled up for visible motion)
-      const deltaSec = clock.getDelta() * timeMultiplier
+      if (!assetsReady) {
+        // Keep the frame time from piling up while waiting
+        clock.getDelta()
+        frameId = requestAnimationFrame(tick)
+        return
+      }
+      // Advance the simulation clock by the real frame time (scaled by its rate)
+      const realDeltaSec = clock.getDelta()
+      const deltaSec = simulationClock.tick(realDeltaSec)
+      // Ease sizes, orbit lines and belts while a scale mode transition runs
+      const transitionScale = scaleTransition.update()
+      if (transitionScale) {
+        applySceneScale(solarParams, meshes, transitionScale, simulationClock.daysSinceJ2000)
+        belts.forEach(belt => setBeltDistanceScale(belt, transitionScale.distance))
+        // Recorded paths are in the old scale
+        trails.clear()
+      }
       // Update planet/sun positions and rotations
-      updateSolarSystem([solarParams.sun, ...solarParams.planets], meshes, deltaSec, { orbitPaused: guiOptions.current.orbitPaused, spinPaused: guiOptions.current.spinPaused })
+      updateSolarSystem([solarParams.sun, ...getOrbitingBodies(solarParams)], meshes, deltaSec, {
+        spinPaused: guiOptions.current.spinPaused,
+        daysSinceJ2000: simulationClock.daysSinceJ2000,
+        distanceScale: scaleTransition.current.distance,
+        referenceFrame: frame,
+      })
+      updateBelts(belts, simulationClock.daysSinceJ2000)
+      trails.update(simulationClock.daysSinceJ2000)
+      missions.forEach(mission => updateMission(mission, simulationClock.daysSinceJ2000, scaleTransition.current.distance))
+      // Keep the tracked object (or the tour's next stop, or the camera mode's body) at the origin (moves the camera along)
+      updateFloatingOrigin(world, tourPlayer.focus ?? cameraModes.focus ?? undefined)
+      updateEffectStack(effects, effectSettings.current, camera, sunMesh, performance.now() / MS_PER_SECOND)
       
-      // Update blur pass uniforms if they exist
-      if (radialBlurPassRef.current) {
-        // Dynamic blur strength removed - only used during transitions now
-        setRadialBlurCenter(radialBlurPassRef.current, blurCenter);
+      // A playing tour or a camera mode (free-fly, chase, surface) drives the camera; otherwise toggle between tracking and OrbitControls update
+      const touring = tourPlayer.update(realDeltaSec)
+      if (touring) cameraModes.exitToOrbit(false)
+      const flying = !touring && cameraModes.update(realDeltaSec)
+      const tracking = updateTrackingCamera(realDeltaSec) || touring || flying
+      // Warp blur while the camera flies between bodies
+      if (!earthTransitionActive.current) {
+        const motion = getTrackingMotion()
+        updateRadialBlurFromMotion(radialBlurPass, motion.relativeSpeed, motion.target, camera, realDeltaSec)
       }
-
-      // toggle between tracking and OrbitControls update
-      if (updateTrackingCamera()) {
+      if (tracking) {
         // camera tracking active, skip control damping
       } else {
         controls.update()
       }
+      // Hover ring around the body under the mouse
+      picking.update()
       // Render the scene
       // renderer.render(scene, camera) // Old rendering
       composerRef.current?.render() // New rendering with post-processing
@@ -277,10 +472,20 @@ export default function Home() {
 
     // --- CLEANUP ON UNMOUNT ---
     return () => {
+      assetLoader.off('progress', onAssetProgress)
+      // Stop following the disposed meshes (a flight in progress resolves as cancelled)
+      trackingCameraEvents.off('cancel', onCameraCancel)
+      clearTracking()
+      // Retries still pending would load into the disposed scene
+      assetLoader.cancelRetries()
       cleanupGUI()
+      picking.dispose()
+      tourPlayer.detach()
+      cameraModes.dispose()
+      window.clearInterval(scaleBarInterval)
       cleanupThreeScene({
         frameId,
-        meshes,
+        meshes: [...meshes, ...belts, ...missions.flatMap(m => [m.group, m.trail, m.marker]), trails.group],
         scene,
         renderer,
         controls,
@@ -289,23 +494,18 @@ export default function Home() {
       })
       // Dispose of label manager and its DOM elements
       labelMgr.dispose()
-      // Dispose of composer
+      // Dispose of composer and its passes (bloom render targets)
+      composerRef.current?.passes.forEach(pass => pass.dispose());
       composerRef.current?.dispose();
     }
-  }, [planetSpread])
-
-  // Effect to update blur center when state changes
-  useEffect(() => {
-    if (radialBlurPassRef.current) {
-      setRadialBlurCenter(radialBlurPassRef.current, blurCenter);
-    }
-  }, [blurCenter]);
+  }, [planetSpread, quality])
 
-  // Palm open/closed detection for orbit and spin pause
+  // Palm open/closed detection for time and spin pause
   usePalmPause(
     handGesturesEnabled
       ? paused => {
-          guiOptions.current.orbitPaused = paused;
+          if (paused) simulationClock.pause();
+          else simulationClock.play();
           guiOptions.current.spinPaused = paused;
         }
       : () => {},
@@ -329,26 +529,26 @@ export default function Home() {
           setVoiceModeEnabled(false)
         })
         // Listen for focus_planet calls from voice service
-        voiceServiceRef.current.on('focus_planet', (planetName: string) => {
+        voiceServiceRef.current.on('focus_planet', (planetName: string, respond: (arrived: boolean) => void) => {
           // Find the target mesh
           const target = focusTargetsRef.current.find(t => t.name.toLowerCase() === planetName.toLowerCase())
-          if (!target) return
-          const mesh = target.mesh
-          // Determine radius for camera offset
-          let radius: number
-          if (mesh instanceof THREE.Group) {
-            const body = mesh.getObjectByName(`${target.name}_body`) as THREE.Mesh
-            radius = (body.geometry as any).parameters.radius as number
-          } else {
-            radius = ((mesh as THREE.Mesh).geometry as any).parameters.radius as number
+          if (!target) {
+            respond(false)
+            return
           }
-          // Trigger camera focus and update state
-          focusOnObject(mesh, radius)
+          const mesh = target.mesh
+          // Trigger camera focus (offset by body radius), answer the assistant on arrival and update state
+          tourPlayer.stop()
+          focusOnObject(mesh, getBodySceneRadius(mesh)).then(respond)
           setFocusedPlanet(planetName)
           // Pause spinning and update GUI
           guiOptions.current.spinPaused = true
           spinControllerRef.current?.updateDisplay()
         })
+        // Listen for time control calls from voice service
+        voiceServiceRef.current.on('control_time', (command: TimeCommand, respond: (outcome: { result?: string; error?: string }) => void) => {
+          respond(simulationClock.applyCommand(command))
+        })
         // Listen for hard stop warning
         voiceServiceRef.current.on('hardStopWarning', (msg: string) => {
           setHardStopWarning(msg)
@@ -367,7 +567,13 @@ export default function Home() {
   // Render progress indicator, canvas, and overlay UI
   return (
     <>
-      <ProgressIndicator progress={skyboxProgress} visible={skyboxLoading} />
+      <ProgressIndicator
+        progress={assetProgress.percent}
+        visible={assetProgress.loaded < assetProgress.total}
+        loaded={assetProgress.loaded}
+        total={assetProgress.total}
+        failed={assetProgress.failed.length}
+      />
       <div
         ref={containerRef}
         style={CONTAINER_STYLE}
@@ -378,7 +584,9 @@ export default function Home() {
           style={CANVAS_STYLE}
         />
       </div>
-      <Overlay planets={solarParams.planets} focusedPlanet={focusedPlanet} cesiumVisible={cesiumVisible} />
+      <Overlay planets={solarParams.planets} dwarfPlanets={solarParams.dwarf_planets} comets={solarParams.comets} spacecraft={missionData.missions} focusedPlanet={focusedPlanet} cesiumVisible={cesiumVisible} scaleMode={scaleSettings.mode} magnification={scaleSettings.magnification} scaleBar={scaleBar} />
+      <TimeControls clock={simulationClock} hidden={cesiumVisible} />
+      <TourControls player={tourPlayer} tours={TOURS} hidden={cesiumVisible} />
       {/* Voice mode button */}
       <ToggleImageSwitch
         enabled={voiceModeEnabled}
@@ -460,6 +668,8 @@ export default function Home() {
         earthMesh={earthMeshRef.current}
         renderer={rendererRef.current}
         radialBlurPass={radialBlurPassRef.current}
+        onTransitionStart={() => { earthTransitionActive.current = true }}
+        onTransitionComplete={() => { earthTransitionActive.current = false }}
       />
     </>
   )
@@ -1,20 +1,38 @@
 import React, { useEffect, useState } from 'react'
 import solarParams from '../info/solar-params.json'
 import { isMobile } from '../lib/utils/mobile'
+import { SCALE_MODES, type ScaleMode } from '../lib/three/scaling'
+import type { ScaleBar } from '../lib/three/scaleBar'
 
 interface Planet {
   name: string
   temperature_k: number
   unusual_facts?: string[]
+  moons?: Planet[]
 }
 
+// Emoji shown for moons without an entry in the life-possibility map
+const MOON_EMOJI = '🌙'
+// Emoji shown for dwarf planets without an entry in the life-possibility map
+const DWARF_PLANET_EMOJI = '🧊'
+// Emoji shown for comets
+const COMET_EMOJI = '☄️'
+// Emoji shown for spacecraft missions
+const SPACECRAFT_EMOJI = '🛰️'
+
 interface OverlayProps {
   planets: Planet[]
+  dwarfPlanets?: Planet[]
+  comets?: Planet[]
+  spacecraft?: { name: string; unusual_facts?: string[] }[]
   focusedPlanet?: string | null
   cesiumVisible?: boolean
+  scaleMode?: ScaleMode
+  magnification?: number
+  scaleBar?: ScaleBar | null
 }
 
-const Overlay: React.FC<OverlayProps> = ({ planets, focusedPlanet, cesiumVisible = false }) => {
+const Overlay: React.FC<OverlayProps> = ({ planets, dwarfPlanets = [], comets = [], spacecraft = [], focusedPlanet, cesiumVisible = false, scaleMode = 'hybrid', magnification, scaleBar }) => {
   const [mounted, setMounted] = useState(false)
   
   useEffect(() => {
@@ -24,6 +42,7 @@ const Overlay: React.FC<OverlayProps> = ({ planets, focusedPlanet, cesiumVisible
   const temps = planets.map(p => p.temperature_k)
   const minTemp = Math.min(...temps)
   const maxTemp = Math.max(...temps)
+  const scaleLabel = Object.keys(SCALE_MODES).find(label => SCALE_MODES[label] === scaleMode) ?? scaleMode
 
   // map each planet to a life-possibility emoji
   const lifeEmoji: Record<string, string> = {
@@ -41,10 +60,14 @@ const Overlay: React.FC<OverlayProps> = ({ planets, focusedPlanet, cesiumVisible
   return (
     <>
       {!cesiumVisible && focusedPlanet && (() => {
-        // Try to find in planets, then fall back to sun
-        let p = planets.find(p => p.name === focusedPlanet)
-        let fact = p?.unusual_facts?.[0]
-        const emoji = lifeEmoji[focusedPlanet] || '❓'
+        // Try to find in planets, then dwarf planets, comets, their moons, spacecraft, then fall back to sun
+        const moon = planets.flatMap(p => p.moons ?? []).find(m => m.name === focusedPlanet)
+        const dwarfPlanet = dwarfPlanets.find(p => p.name === focusedPlanet)
+        const comet = comets.find(c => c.name === focusedPlanet)
+        const craft = spacecraft.find(s => s.name === focusedPlanet)
+        let p = planets.find(p => p.name === focusedPlanet) ?? dwarfPlanet ?? comet ?? moon
+        let fact = p?.unusual_facts?.[0] ?? craft?.unusual_facts?.[0]
+        const emoji = lifeEmoji[focusedPlanet] || (moon ? MOON_EMOJI : dwarfPlanet ? DWARF_PLANET_EMOJI : comet ? COMET_EMOJI : craft ? SPACECRAFT_EMOJI : '❓')
         if (!p && focusedPlanet === 'Sun') {
           const sun = solarParams.sun
           fact = sun.unusual_facts?.[0]
@@ -100,7 +123,25 @@ const Overlay: React.FC<OverlayProps> = ({ planets, focusedPlanet, cesiumVisible
             minWidth: 180,
           }}
         >
-          <div>Scale: <b>Linear</b></div>
+          <div>
+            Scale: <b>{scaleLabel}</b>
+            {scaleMode === 'true' && magnification !== undefined && <span style={{ opacity: 0.8 }}> (sizes ×{magnification})</span>}
+          </div>
+          {scaleBar && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, margin: '4px 0' }}>
+              <div
+                style={{
+                  width: scaleBar.widthPx,
+                  height: 6,
+                  border: '1px solid #fff',
+                  borderTop: 'none',
+                }}
+              />
+              <span style={{ fontSize: 12 }}>
+                {scaleBar.label}{scaleMode === 'log' && <span style={{ opacity: 0.7 }}> (local)</span>}
+              </span>
+            </div>
+          )}
           <div style={{ fontSize: 12, opacity: 0.8 }}>
             Range: {minTemp} K – {maxTemp} K
           </div>
@@ -0,0 +1,134 @@
+import React, { CSSProperties, useEffect, useState } from 'react'
+import { SimulationClock, TIME_RATE_PRESETS, type TimeStepUnit } from '../lib/three/simulationClock'
+import { formatUtcDate, parseUtcDate } from '../lib/three/ephemeris'
+import { isMobile } from '../lib/utils/mobile'
+
+interface TimeControlsProps {
+  clock: SimulationClock
+  hidden?: boolean
+}
+
+// --- CONSTANTS ---
+const READOUT_INTERVAL_MS = 100 // How often the date readout polls the running clock
+const READOUT_TIME_LENGTH = 16 // 'YYYY-MM-DDTHH:MM' prefix of an ISO timestamp
+const STEP_BACK_BUTTONS: { label: string; unit: TimeStepUnit; count: number }[] = [
+  { label: '−Y', unit: 'year', count: -1 },
+  { label: '−M', unit: 'month', count: -1 },
+  { label: '−D', unit: 'day', count: -1 },
+]
+const STEP_FORWARD_BUTTONS: { label: string; unit: TimeStepUnit; count: number }[] = [
+  { label: '+D', unit: 'day', count: 1 },
+  { label: '+M', unit: 'month', count: 1 },
+  { label: '+Y', unit: 'year', count: 1 },
+]
+const BUTTON_STYLE: CSSProperties = {
+  background: 'rgba(255,255,255,0.08)',
+  color: '#fff',
+  border: '1px solid rgba(255,255,255,0.15)',
+  borderRadius: 4,
+  padding: '2px 8px',
+  cursor: 'pointer',
+  fontSize: 13,
+}
+const ACTIVE_BUTTON_STYLE: CSSProperties = { ...BUTTON_STYLE, background: 'rgba(255,170,0,0.35)', borderColor: '#fa0' }
+
+// Formats the clock time as 'YYYY-MM-DD HH:MM UTC'
+function formatReadout(timeMs: number) {
+  return `${new Date(timeMs).toISOString().slice(0, READOUT_TIME_LENGTH).replace('T', ' ')} UTC`
+}
+
+const TimeControls: React.FC<TimeControlsProps> = ({ clock, hidden = false }) => {
+  const [mounted, setMounted] = useState(false)
+  const [readout, setReadout] = useState('')
+  // Bumped on every clock 'change' event to re-render play state, direction and rate
+  const [, setRevision] = useState(0)
+
+  useEffect(() => {
+    setMounted(true)
+    const onChange = () => setRevision(r => r + 1)
+    clock.on('change', onChange)
+    const interval = window.setInterval(() => setReadout(formatReadout(clock.time)), READOUT_INTERVAL_MS)
+    return () => {
+      clock.off('change', onChange)
+      window.clearInterval(interval)
+    }
+  }, [clock])
+
+  if (!mounted || hidden) return null
+
+  const mobile = isMobile()
+  const rateLabel = Object.keys(TIME_RATE_PRESETS).find(label => TIME_RATE_PRESETS[label] === clock.rate) ?? ''
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: '50%',
+        bottom: mobile ? 8 : 16,
+        transform: `translateX(-50%)${mobile ? ' scale(0.85)' : ''}`,
+        transformOrigin: 'bottom center',
+        background: 'rgba(20,20,30,0.7)',
+        color: '#fff',
+        fontSize: 13,
+        padding: '8px 12px',
+        borderRadius: 8,
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        fontFamily: 'system-ui, sans-serif',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: 6,
+      }}
+    >
+      <div style={{ fontWeight: 'bold', fontVariantNumeric: 'tabular-nums' }}>{readout}</div>
+      <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+        {STEP_BACK_BUTTONS.map(({ label, unit, count }) => (
+          <button key={label} style={BUTTON_STYLE} onClick={() => clock.step(unit, count)}>{label}</button>
+        ))}
+        <button
+          style={clock.reversed && !clock.paused ? ACTIVE_BUTTON_STYLE : BUTTON_STYLE}
+          onClick={() => { clock.setReversed(true); clock.play() }}
+          aria-label="Play backwards"
+        >◀</button>
+        <button
+          style={clock.paused ? ACTIVE_BUTTON_STYLE : BUTTON_STYLE}
+          onClick={() => clock.togglePause()}
+          aria-label={clock.paused ? 'Resume' : 'Pause'}
+        >❚❚</button>
+        <button
+          style={!clock.reversed && !clock.paused ? ACTIVE_BUTTON_STYLE : BUTTON_STYLE}
+          onClick={() => { clock.setReversed(false); clock.play() }}
+          aria-label="Play forwards"
+        >▶</button>
+        {STEP_FORWARD_BUTTONS.map(({ label, unit, count }) => (
+          <button key={label} style={BUTTON_STYLE} onClick={() => clock.step(unit, count)}>{label}</button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+        <select
+          value={rateLabel}
+          onChange={e => clock.setRate(TIME_RATE_PRESETS[e.target.value])}
+          style={{ ...BUTTON_STYLE, background: '#222' }}
+          aria-label="Time rate"
+        >
+          {!rateLabel && <option value="">Custom</option>}
+          {Object.keys(TIME_RATE_PRESETS).map(label => <option key={label} value={label}>{label}</option>)}
+        </select>
+        <input
+          type="date"
+          value={formatUtcDate(clock.time)}
+          onChange={e => {
+            const time = parseUtcDate(e.target.value)
+            if (time !== null) clock.setTime(time)
+          }}
+          style={{ ...BUTTON_STYLE, background: '#222', colorScheme: 'dark' }}
+          aria-label="Jump to date"
+        />
+        <button style={BUTTON_STYLE} onClick={() => clock.setTime(Date.now())}>Today</button>
+      </div>
+    </div>
+  )
+}
+
+export default TimeControls
@@ -0,0 +1,100 @@
+import React, { CSSProperties, useEffect, useState } from 'react'
+import type { Tour, TourPlayer } from '../lib/three/tour'
+import { isMobile } from '../lib/utils/mobile'
+
+interface TourControlsProps {
+  player: TourPlayer
+  tours: Tour[]
+  hidden?: boolean
+}
+
+// --- CONSTANTS ---
+const BUTTON_STYLE: CSSProperties = {
+  background: 'rgba(255,255,255,0.08)',
+  color: '#fff',
+  border: '1px solid rgba(255,255,255,0.15)',
+  borderRadius: 4,
+  padding: '2px 8px',
+  cursor: 'pointer',
+  fontSize: 13,
+}
+const ACTIVE_BUTTON_STYLE: CSSProperties = { ...BUTTON_STYLE, background: 'rgba(255,170,0,0.35)', borderColor: '#fa0' }
+
+// Guided tour picker, and narration with pause/skip/stop while a tour plays
+const TourControls: React.FC<TourControlsProps> = ({ player, tours, hidden = false }) => {
+  const [mounted, setMounted] = useState(false)
+  const [selected, setSelected] = useState(0)
+  // Bumped on every player 'change' event to re-render the stop, narration and play state
+  const [, setRevision] = useState(0)
+
+  useEffect(() => {
+    setMounted(true)
+    const onChange = () => setRevision(r => r + 1)
+    player.on('change', onChange)
+    return () => {
+      player.off('change', onChange)
+    }
+  }, [player])
+
+  if (!mounted || hidden || !tours.length) return null
+
+  const mobile = isMobile()
+  const tour = player.tour
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: mobile ? 8 : 16,
+        top: mobile ? 8 : 16,
+        transform: mobile ? 'scale(0.85)' : undefined,
+        transformOrigin: 'top left',
+        background: 'rgba(20,20,30,0.7)',
+        color: '#fff',
+        fontSize: 13,
+        padding: '8px 12px',
+        borderRadius: 8,
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        fontFamily: 'system-ui, sans-serif',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 6,
+        maxWidth: 320,
+      }}
+    >
+      {tour ? (
+        <>
+          <div style={{ fontWeight: 'bold' }}>
+            {tour.name} <span style={{ opacity: 0.7, fontWeight: 'normal' }}>({player.stopIndex + 1}/{player.stopCount})</span>
+          </div>
+          {player.narration && <div style={{ lineHeight: 1.4 }}>{player.narration}</div>}
+          <div style={{ display: 'flex', gap: 4 }}>
+            <button
+              style={player.paused ? ACTIVE_BUTTON_STYLE : BUTTON_STYLE}
+              onClick={() => player.togglePause()}
+              aria-label={player.paused ? 'Resume tour' : 'Pause tour'}
+            >{player.paused ? '▶' : '❚❚'}</button>
+            <button style={BUTTON_STYLE} onClick={() => player.skip()} aria-label="Next stop">⏭</button>
+            <button style={BUTTON_STYLE} onClick={() => player.stop()} aria-label="Stop tour">■</button>
+          </div>
+        </>
+      ) : (
+        <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+          <select
+            value={selected}
+            onChange={e => setSelected(Number(e.target.value))}
+            style={{ ...BUTTON_STYLE, background: '#222' }}
+            aria-label="Guided tour"
+            title={tours[selected]?.description}
+          >
+            {tours.map((t, i) => <option key={t.name} value={i}>{t.name}</option>)}
+          </select>
+          <button style={BUTTON_STYLE} onClick={() => player.play(tours[selected])}>▶ Tour</button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TourControls
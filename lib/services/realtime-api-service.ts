@@ -12,9 +12,21 @@
  * - 'error': Error events with detailed messages
  * - 'recordingStarted': When voice recording begins
  * - 'recordingStopped': When voice recording ends
+ * - 'focus_planet': When the assistant asks to focus a body (payload: name, and a
+ *   respond(arrived) callback to call once the camera arrived or was interrupted,
+ *   so the assistant speaks about the body when it is in view)
+ * - 'control_time': When the assistant changes the simulation clock (payload: a validated
+ *   TimeCommand, and a respond({ result | error }) callback to report the clock's outcome)
  */
 import { EventEmitter } from 'events';
 import solarParams from '../../info/solar-params.json';
+import missionData from '../../info/missions.json';
+import { TIME_RATE_PRESETS, type TimeCommand } from '../three/simulationClock';
+import { parseUtcDate } from '../three/ephemeris';
+
+// Actions and step units accepted by the control_time tool
+const TIME_ACTIONS: TimeCommand['action'][] = ['play', 'pause', 'reverse', 'forward', 'step', 'set_rate', 'jump_to_date'];
+const TIME_STEP_UNITS = ['day', 'month', 'year'];
 
 /**
  * Interface for the structure of events sent/received via the data channel.
@@ -271,27 +283,67 @@ export class VoiceService extends EventEmitter {
    * This includes the system instructions and the available tools (functions).
    */
   private _sendSessionUpdate() {
-    // Build an enum of valid names for the focus_planet function
-    const validNames = [solarParams.sun.name, ...solarParams.planets.map(p => p.name)];
+    // Build an enum of valid names for the focus_planet function (sun, planets and their moons)
+    const validNames = [
+      solarParams.sun.name,
+      ...solarParams.planets.map(p => p.name),
+      ...solarParams.dwarf_planets.map(p => p.name),
+      ...solarParams.comets.map(c => c.name),
+      ...solarParams.planets.flatMap(p => (p.moons ?? []).map(m => m.name)),
+      ...missionData.missions.map(m => m.name),
+    ];
     this._sendEvent({
       type: 'session.update',
       session: {
-        instructions: `You are a cosmologist-educator in the style of David Attenborough. Treat every space object as an animal. If a user asks about, mentions, or wants to hear a story, fact, or information about any planet or the sun, you MUST call the focus_planet tool BEFORE answering, even if the user just wants to know about it, hear a story, or asks indirectly. Never answer about a planet or the sun without first calling the tool. If you encounter any technical issues, do not mention them to the user—just keep going and ignore them.`,
+        instructions: `You are a cosmologist-educator in the style of David Attenborough. Treat every space object as an animal. If a user asks about, mentions, or wants to hear a story, fact, or information about any planet, dwarf planet, comet, moon, spacecraft or the sun, you MUST call the focus_planet tool BEFORE answering, even if the user just wants to know about it, hear a story, or asks indirectly. Never answer about a planet, dwarf planet, comet, moon, spacecraft or the sun without first calling the tool. If the user asks to speed up, slow down, pause, reverse or step time, or to see the sky on a specific date, call the control_time tool. If you encounter any technical issues, do not mention them to the user—just keep going and ignore them.`,
         tools: [{
           type: 'function',
           name: 'focus_planet',
-          description: `Call this tool to focus the camera on a planet or the sun whenever the user asks about, mentions, or wants to hear a story, fact, or information about it. Always use this tool before answering any question or request related to a planet or the sun, even if the request is indirect or for a story.`,
+          description: `Call this tool to focus the camera on a planet, dwarf planet, comet, moon, spacecraft or the sun whenever the user asks about, mentions, or wants to hear a story, fact, or information about it. Always use this tool before answering any question or request related to a planet or the sun, even if the request is indirect or for a story.`,
           parameters: {
             type: 'object',
             properties: {
               name: {
                 type: 'string',
-                description: 'Name of the planet or the sun to focus on',
+                description: 'Name of the planet, moon or the sun to focus on',
                 enum: validNames
               }
             },
             required: ['name']
           }
+        }, {
+          type: 'function',
+          name: 'control_time',
+          description: `Call this tool to control the simulation clock: play, pause, run time backwards or forwards, step by a day/month/year, change the time rate, or jump to a date.`,
+          parameters: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                description: 'What to do with the simulation clock',
+                enum: TIME_ACTIONS
+              },
+              unit: {
+                type: 'string',
+                description: 'Calendar unit for the step action',
+                enum: TIME_STEP_UNITS
+              },
+              count: {
+                type: 'number',
+                description: 'Number of units to step (negative to step back)'
+              },
+              rate: {
+                type: 'string',
+                description: 'Time rate for the set_rate action',
+                enum: Object.keys(TIME_RATE_PRESETS)
+              },
+              date: {
+                type: 'string',
+                description: 'UTC date for the jump_to_date action, formatted YYYY-MM-DD'
+              }
+            },
+            required: ['action']
+          }
         }],
         modalities: ['text', 'audio'], // Enable both text and audio modalities
       }
@@ -314,7 +366,7 @@ export class VoiceService extends EventEmitter {
    * @param call_id - The unique identifier of the function call this output corresponds to.
    * @param output - The result data from the function execution.
    */
-  private _sendFunctionOutput(call_id: string | undefined, output: Record<string, string>) {
+  private _sendFunctionOutput(call_id: string | undefined, output: Record<string, string | undefined>) {
     // 1) Send output item
     this._sendEvent({
       type: 'conversation.item.create',
@@ -331,6 +383,40 @@ export class VoiceService extends EventEmitter {
     });
   }
 
+  /**
+   * Validates the parameters of a control_time call.
+   * @param params - The parameters provided by the assistant.
+   * @returns The time command, or an error message for the assistant.
+   */
+  private _parseTimeCommand(params: Record<string, unknown>): TimeCommand | { error: string } {
+    const { action, unit, count, rate, date } = params;
+    if (typeof action !== 'string' || !TIME_ACTIONS.includes(action as TimeCommand['action'])) {
+      return { error: 'Invalid or missing time action' };
+    }
+    const command: TimeCommand = { action: action as TimeCommand['action'] };
+    if (action === 'step') {
+      if (unit !== undefined && (typeof unit !== 'string' || !TIME_STEP_UNITS.includes(unit))) {
+        return { error: `Invalid step unit, expected one of: ${TIME_STEP_UNITS.join(', ')}` };
+      }
+      if (count !== undefined && (typeof count !== 'number' || !Number.isInteger(count))) {
+        return { error: 'Invalid step count, expected a whole number' };
+      }
+      command.unit = unit as TimeCommand['unit'];
+      command.count = count as number | undefined;
+    } else if (action === 'set_rate') {
+      if (typeof rate !== 'string' || !(rate in TIME_RATE_PRESETS)) {
+        return { error: `Invalid or missing time rate, expected one of: ${Object.keys(TIME_RATE_PRESETS).join(', ')}` };
+      }
+      command.rate = rate;
+    } else if (action === 'jump_to_date') {
+      if (typeof date !== 'string' || parseUtcDate(date) === null) {
+        return { error: 'Invalid or missing date, expected YYYY-MM-DD' };
+      }
+      command.date = date;
+    }
+    return command;
+  }
+
   /**
    * Handles incoming function call requests from the assistant.
    * Determines which local function to execute based on the name,
@@ -362,13 +448,29 @@ export class VoiceService extends EventEmitter {
         if (typeof planetName === 'string' && planetName.length > 0) {
           console.log('[VoiceService] focus_planet called with:', planetName);
           this.emit('debug', `focus_planet called with: ${planetName}`);
-          // Emit event for focusing on a planet or sun
-          this.emit('focus_planet', planetName);
+          // Emit event for focusing on a planet or sun; a listener answers once the camera arrived
+          const respond = (arrived: boolean) => this._sendFunctionOutput(call_id, arrived
+            ? { result: `Now showing ${planetName}` }
+            : { result: `Could not bring ${planetName} into view` });
+          if (this.emit('focus_planet', planetName, respond)) return;
           output = { result: `Focusing on ${planetName}` };
         } else {
           output = { error: 'Invalid or missing planet name' };
         }
         break;
+      case 'control_time': {
+        const command = this._parseTimeCommand(parsedParams);
+        if ('error' in command) {
+          output = command;
+          break;
+        }
+        this.emit('debug', `control_time called with: ${JSON.stringify(command)}`);
+        // Emit event for the page to apply to the simulation clock; it reports the clock's result or error
+        const respond = (outcome: { result?: string; error?: string }) => this._sendFunctionOutput(call_id, outcome);
+        if (this.emit('control_time', command, respond)) return;
+        output = { error: 'Time control is not available' };
+        break;
+      }
       default:
         output = { error: 'Unknown tool' };
         break;
@@ -0,0 +1,156 @@
+/**
+ * AssetLoader: loads every texture of the scene through one THREE.LoadingManager
+ *
+ * Tracks each asset (loading, loaded or failed after its retries) so the UI can
+ * show aggregate progress and failures, and the first frame can wait for the
+ * critical assets (skybox and body surfaces) instead of letting them pop in.
+ *
+ * Events emitted:
+ * - 'progress': When an asset starts, finishes or fails (with the AssetProgress)
+ */
+import { EventEmitter } from 'events'
+import * as THREE from 'three'
+import { TIFFLoader } from 'three/examples/jsm/loaders/TIFFLoader.js'
+
+// =========================
+// Loading constants
+// =========================
+const MAX_RETRIES = 2 // Extra attempts for an asset before it counts as failed
+const RETRY_DELAY_MS = 1000 // Wait before a retry, multiplied by the attempt number
+const PERCENT = 100 // Progress is reported in percent
+
+// =========================
+// Type Definitions
+// =========================
+
+export type AssetStatus = 'loading' | 'loaded' | 'failed'
+
+// Aggregate loading state, as shown by the progress indicator
+export interface AssetProgress {
+  loaded: number // Assets settled (loaded or failed)
+  total: number
+  percent: number
+  failed: string[] // URLs that failed after all retries
+  criticalReady: boolean // No critical asset is still loading
+}
+
+interface AssetEntry {
+  status: AssetStatus
+  critical: boolean
+}
+
+export class AssetLoader extends EventEmitter {
+  // Shared by all loaders, so any loader can plug into the same progress
+  readonly manager = new THREE.LoadingManager()
+  private assets = new Map<string, AssetEntry>()
+  // Pending retry timers, with the URL each one reloads
+  private retries = new Map<number, string>()
+
+  constructor() {
+    super()
+    this.manager.onProgress = () => this.emit('progress', this.progress)
+  }
+
+  get progress(): AssetProgress {
+    const entries = Array.from(this.assets.entries())
+    const loaded = entries.filter(([, asset]) => asset.status !== 'loading').length
+    return {
+      loaded,
+      total: entries.length,
+      percent: entries.length > 0 ? (loaded / entries.length) * PERCENT : PERCENT,
+      failed: entries.filter(([, asset]) => asset.status === 'failed').map(([url]) => url),
+      criticalReady: entries.every(([, asset]) => !asset.critical || asset.status !== 'loading'),
+    }
+  }
+
+  /**
+   * Starts loading a texture. TIFF files (e.g. normal maps) are decoded by
+   * TIFFLoader, other formats by the browser. Failed loads are retried; the
+   * returned texture receives the image of the attempt that succeeds.
+   * @param path - Texture URL
+   * @param isColor - True for color data (sRGB), false for data textures such as normal maps
+   * @param onError - Called once the asset has failed all attempts
+   * @param critical - Whether the first frame waits for this asset
+   */
+  loadTexture(path: string, isColor = true, onError?: () => void, critical = false): THREE.Texture {
+    const loader = /\.tiff?$/i.test(path) ? new TIFFLoader(this.manager) : new THREE.TextureLoader(this.manager)
+    const colorSpace = isColor ? THREE.SRGBColorSpace : THREE.NoColorSpace
+    this.setStatus(path, 'loading', critical)
+
+    const attempt = (retry: number): THREE.Texture => loader.load(
+      path,
+      loaded => {
+        if (loaded !== texture) {
+          // A retry succeeded: move its image into the texture handed out first
+          loaded.colorSpace = colorSpace
+          loaded.mapping = texture.mapping
+          texture.copy(loaded)
+          texture.needsUpdate = true
+        }
+        this.setStatus(path, 'loaded', critical)
+      },
+      undefined,
+      () => {
+        if (retry < MAX_RETRIES) {
+          const handle = window.setTimeout(() => {
+            this.retries.delete(handle)
+            attempt(retry + 1)
+          }, RETRY_DELAY_MS * (retry + 1))
+          this.retries.set(handle, path)
+          return
+        }
+        console.warn(`Asset failed to load: ${path}`)
+        this.setStatus(path, 'failed', critical)
+        onError?.()
+      }
+    )
+    const texture = attempt(0)
+    texture.colorSpace = colorSpace
+    return texture
+  }
+
+  /**
+   * Resolves once no critical asset is loading, or after a timeout so a slow
+   * asset never blocks the scene.
+   * @param timeoutMs - Longest wait in milliseconds
+   */
+  whenCriticalReady(timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const check = () => {
+        if (this.progress.criticalReady) done()
+      }
+      const done = () => {
+        window.clearTimeout(timer)
+        this.off('progress', check)
+        resolve()
+      }
+      const timer = window.setTimeout(done, timeoutMs)
+      this.on('progress', check)
+      check()
+    })
+  }
+
+  /**
+   * Cancels the pending retries, e.g. when the scene their textures belong to
+   * is disposed. Their assets are forgotten, so they no longer count as loading.
+   */
+  cancelRetries() {
+    if (!this.retries.size) return
+    this.retries.forEach((path, handle) => {
+      window.clearTimeout(handle)
+      this.assets.delete(path)
+    })
+    this.retries.clear()
+    this.emit('progress', this.progress)
+  }
+
+  // Records an asset's status (a critical asset stays critical when reloaded) and reports progress
+  private setStatus(path: string, status: AssetStatus, critical: boolean) {
+    const asset = this.assets.get(path)
+    this.assets.set(path, { status, critical: critical || !!asset?.critical })
+    this.emit('progress', this.progress)
+  }
+}
+
+// Shared by the skybox, the material registry and the texture cache
+export const assetLoader = new AssetLoader()
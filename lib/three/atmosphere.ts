@@ -0,0 +1,138 @@
+// Atmosphere (rim scattering shell) and cloud layers around bodies
+import * as THREE from 'three'
+import { bindSunViewPosition, createBodyMaterial } from './lighting'
+import { loadTexture } from './textureLoader'
+import { getQualitySettings } from './quality'
+
+// =========================
+// Layer constants
+// =========================
+const CLOUD_ALTITUDE = 0.01 // Cloud shell height above the surface, as a fraction of the body radius
+const ATMOSPHERE_RIM_POWER = 3 // Sharpness of the glow towards the limb
+const ATMOSPHERE_DEFAULT_INTENSITY = 1 // Glow strength when the data gives none
+const ATMOSPHERE_NIGHT_EDGE = -0.3 // Scattering fades out this far (cosine) past the terminator
+const ATMOSPHERE_DAY_EDGE = 0.5 // Full scattering from here towards the sub-solar point
+const SECONDS_PER_DAY = 86400 // Converts cloud rotation periods (days) to angular speed per second
+
+// =========================
+// Type Definitions
+// =========================
+
+// Atmosphere shell settings (from solar-params.json)
+export interface AtmosphereParams {
+  color: string
+  thickness: number // Shell height as a fraction of the body radius
+  intensity?: number
+}
+
+// Cloud layer settings (from solar-params.json)
+export interface CloudParams {
+  texture: string
+  opacity: number
+  rotation_period_days: number // Negative for the same sense as a retrograde spin
+  alpha_map?: boolean // Use the (grayscale) texture as cloud coverage over white clouds
+}
+
+// =========================
+// Shaders
+// =========================
+const atmosphereVertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    vNormal = normalize(normalMatrix * normal);
+    vViewPosition = -mvPosition.xyz;
+    gl_Position = projectionMatrix * mvPosition;
+    #include <logdepthbuf_vertex>
+  }
+`
+
+const atmosphereFragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+  uniform vec3 uColor;
+  uniform float uIntensity;
+  uniform vec3 uSunViewPosition;
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+
+  void main() {
+    #include <logdepthbuf_fragment>
+    vec3 normal = normalize(vNormal);
+    // Fresnel-like rim: light scatters through more air towards the limb
+    float rim = 1.0 - abs(dot(normal, normalize(vViewPosition)));
+    float glow = pow(rim, ${ATMOSPHERE_RIM_POWER.toFixed(1)}) * uIntensity;
+    // Only the sunlit side scatters
+    float sunFacing = dot(normal, normalize(uSunViewPosition + vViewPosition));
+    glow *= smoothstep(${ATMOSPHERE_NIGHT_EDGE.toFixed(2)}, ${ATMOSPHERE_DAY_EDGE.toFixed(2)}, sunFacing);
+    gl_FragColor = vec4(uColor, glow);
+  }
+`
+
+// =========================
+// Layer creation & updates
+// =========================
+
+/**
+ * Creates the atmosphere shell of a body, glowing at the sunlit limb.
+ * @param name - Body name (the shell is named `${name}_atmosphere`)
+ * @param radius - Scene radius of the body
+ * @param params - Atmosphere settings
+ * @param sun - Sun object (its position sets the lit side)
+ */
+export function createAtmosphere(name: string, radius: number, params: AtmosphereParams, sun: THREE.Object3D): THREE.Mesh {
+  const { layerSegments } = getQualitySettings()
+  const geometry = new THREE.SphereGeometry(radius * (1 + params.thickness), layerSegments, layerSegments)
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uColor: { value: new THREE.Color(params.color) },
+      uIntensity: { value: params.intensity ?? ATMOSPHERE_DEFAULT_INTENSITY },
+      uSunViewPosition: { value: new THREE.Vector3() },
+    },
+    vertexShader: atmosphereVertexShader,
+    fragmentShader: atmosphereFragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  })
+  const mesh = new THREE.Mesh(geometry, material)
+  mesh.name = `${name}_atmosphere`
+  material.uniforms.uSunViewPosition = bindSunViewPosition(mesh, sun)
+  return mesh
+}
+
+/**
+ * Creates the cloud layer of a body. It is rotated on its own by spinClouds.
+ * @param name - Body name (the layer is named `${name}_clouds`)
+ * @param radius - Scene radius of the body
+ * @param params - Cloud settings
+ */
+export function createClouds(name: string, radius: number, params: CloudParams): THREE.Mesh {
+  const texture = loadTexture(params.texture)
+  const { layerSegments } = getQualitySettings()
+  const geometry = new THREE.SphereGeometry(radius * (1 + CLOUD_ALTITUDE), layerSegments, layerSegments)
+  const material = createBodyMaterial(params.alpha_map
+    ? { alphaMap: texture, color: 0xffffff, opacity: params.opacity, transparent: true, depthWrite: false }
+    : { map: texture, opacity: params.opacity, transparent: true, depthWrite: false })
+  const mesh = new THREE.Mesh(geometry, material)
+  mesh.name = `${name}_clouds`
+  mesh.userData.rotationPeriodDays = params.rotation_period_days
+  return mesh
+}
+
+/**
+ * Rotates a body's cloud layer (if any) by its own period.
+ * @param obj - Body object (a group with a `${name}_clouds` child)
+ * @param name - Body name
+ * @param deltaSec - Simulated seconds since the last frame
+ * @param weight - Spin weight (eases pause/resume like the body spin)
+ */
+export function spinClouds(obj: THREE.Object3D, name: string, deltaSec: number, weight = 1) {
+  const clouds = obj.getObjectByName(`${name}_clouds`)
+  const period = clouds?.userData.rotationPeriodDays
+  if (!clouds || !period) return
+  clouds.rotation.y += ((2 * Math.PI) / (period * SECONDS_PER_DAY)) * deltaSec * weight
+}
@@ -0,0 +1,185 @@
+// Procedural asteroid / Kuiper belts: point clouds on Keplerian orbits, animated on the GPU
+import * as THREE from 'three'
+import { makeSeededRandom } from '../utils/math'
+import type { DistanceScale } from './orbits'
+
+// =========================
+// Belt constants
+// =========================
+const AU_MILLION_KM = 149.5978707 // One astronomical unit in million km
+const DAYS_PER_YEAR = 365.25 // Kepler's third law: P(days) = DAYS_PER_YEAR * a(AU)^1.5
+const DISTANCE_LUT_SIZE = 64 // Samples of the distance scale uploaded to the shader
+const KEPLER_ITERATIONS = 5 // Newton steps in the shader (belt orbits have low eccentricity)
+const POINT_SIZE_ATTENUATION = 300 // Reference screen scale for perspective point sizing
+const TWO_PI = Math.PI * 2
+
+// =========================
+// Type Definitions
+// =========================
+
+// Distribution parameters for a procedurally generated belt (from solar-params.json)
+export interface BeltParams {
+  name: string
+  inner_au: number
+  outer_au: number
+  count: number
+  max_eccentricity: number
+  inclination_sigma_deg: number // Standard deviation of orbital inclinations
+  color: string
+  point_size: number
+  opacity: number
+  seed: number
+}
+
+// =========================
+// Shaders
+// =========================
+const beltVertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+  #define LUT_SIZE ${DISTANCE_LUT_SIZE}
+  attribute vec4 aOrbit; // semi-major axis (million km), eccentricity, inclination, ascending node (radians)
+  attribute vec3 aPhase; // argument of perihelion, mean anomaly at J2000 (radians), mean motion (rad/day)
+  uniform float uDays;
+  uniform float uDistanceLut[LUT_SIZE];
+  uniform float uLutMax;
+  uniform float uSize;
+
+  void main() {
+    float a = aOrbit.x;
+    float e = aOrbit.y;
+    float M = mod(aPhase.y + aPhase.z * uDays, ${TWO_PI.toFixed(7)});
+    float E = M;
+    for (int k = 0; k < ${KEPLER_ITERATIONS}; k++) {
+      E -= (E - e * sin(E) - M) / (1.0 - e * cos(E));
+    }
+    float xp = a * (cos(E) - e);
+    float yp = a * sqrt(1.0 - e * e) * sin(E);
+
+    float cosI = cos(aOrbit.z), sinI = sin(aOrbit.z);
+    float cosO = cos(aOrbit.w), sinO = sin(aOrbit.w);
+    float cosW = cos(aPhase.x), sinW = sin(aPhase.x);
+    float x = (cosO * cosW - sinO * sinW * cosI) * xp + (-cosO * sinW - sinO * cosW * cosI) * yp;
+    float y = (sinO * cosW + cosO * sinW * cosI) * xp + (-sinO * sinW + cosO * cosW * cosI) * yp;
+    float z = (sinW * sinI) * xp + (cosW * sinI) * yp;
+    vec3 pos = vec3(x, z, -y); // Ecliptic → Three.js axes (Y = ecliptic north)
+
+    // Radial distance scale, sampled from the same function the planets use
+    float r = length(pos);
+    float f = clamp(r / uLutMax, 0.0, 1.0) * float(LUT_SIZE - 1);
+    int i0 = int(floor(f));
+    int i1 = min(i0 + 1, LUT_SIZE - 1);
+    pos *= mix(uDistanceLut[i0], uDistanceLut[i1], fract(f)) / r;
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_PointSize = max(1.0, uSize * ${POINT_SIZE_ATTENUATION.toFixed(1)} / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+    #include <logdepthbuf_vertex>
+  }
+`
+
+const beltFragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+  uniform vec3 uColor;
+  uniform float uOpacity;
+
+  void main() {
+    #include <logdepthbuf_fragment>
+    // Round points
+    if (length(gl_PointCoord - 0.5) > 0.5) discard;
+    gl_FragColor = vec4(uColor, uOpacity);
+  }
+`
+
+// =========================
+// Belt creation & updates
+// =========================
+
+// Standard normal sample (Box-Muller) from a uniform generator
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(TWO_PI * random())
+}
+
+// Samples the distance scale from 0 to maxMkm for the shader lookup table
+function sampleDistanceScale(distanceScale: DistanceScale, maxMkm: number): number[] {
+  return Array.from({ length: DISTANCE_LUT_SIZE }, (_, i) => distanceScale((i / (DISTANCE_LUT_SIZE - 1)) * maxMkm))
+}
+
+/**
+ * Creates a belt as a point cloud. Each point gets random orbital elements
+ * drawn from the belt's distribution; positions are solved in the vertex shader.
+ * @param params - Belt distribution parameters
+ * @param distanceScale - Heliocentric distance → scene distance mapping
+ */
+export function createBelt(params: BeltParams, distanceScale: DistanceScale): THREE.Points {
+  const random = makeSeededRandom(params.seed)
+  const orbits = new Float32Array(params.count * 4)
+  const phases = new Float32Array(params.count * 3)
+  const inclinationSigma = THREE.MathUtils.degToRad(params.inclination_sigma_deg)
+
+  for (let i = 0; i < params.count; i++) {
+    const aAu = THREE.MathUtils.lerp(params.inner_au, params.outer_au, random())
+    orbits[i * 4] = aAu * AU_MILLION_KM
+    orbits[i * 4 + 1] = random() * params.max_eccentricity
+    orbits[i * 4 + 2] = Math.abs(gaussian(random)) * inclinationSigma
+    orbits[i * 4 + 3] = random() * TWO_PI
+    phases[i * 3] = random() * TWO_PI
+    phases[i * 3 + 1] = random() * TWO_PI
+    phases[i * 3 + 2] = TWO_PI / (DAYS_PER_YEAR * Math.pow(aAu, 1.5))
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  // Positions are computed in the shader; the attribute only sets the draw count
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(params.count * 3), 3))
+  geometry.setAttribute('aOrbit', new THREE.Float32BufferAttribute(orbits, 4))
+  geometry.setAttribute('aPhase', new THREE.Float32BufferAttribute(phases, 3))
+
+  // Farthest possible distance (aphelion of the outermost orbit) bounds the lookup table
+  const lutMax = params.outer_au * AU_MILLION_KM * (1 + params.max_eccentricity)
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uDays: { value: 0 },
+      uDistanceLut: { value: sampleDistanceScale(distanceScale, lutMax) },
+      uLutMax: { value: lutMax },
+      uSize: { value: params.point_size },
+      uColor: { value: new THREE.Color(params.color) },
+      uOpacity: { value: params.opacity },
+    },
+    vertexShader: beltVertexShader,
+    fragmentShader: beltFragmentShader,
+    transparent: true,
+    depthWrite: false,
+  })
+
+  const points = new THREE.Points(geometry, material)
+  points.name = params.name
+  // Bounding volume of the placeholder positions is meaningless
+  points.frustumCulled = false
+  return points
+}
+
+/**
+ * Creates all belts defined in the data.
+ */
+export function createBelts(belts: BeltParams[], distanceScale: DistanceScale): THREE.Points[] {
+  return belts.map(params => createBelt(params, distanceScale))
+}
+
+/**
+ * Re-samples the distance scale (e.g. after the scaling changes).
+ */
+export function setBeltDistanceScale(belt: THREE.Points, distanceScale: DistanceScale) {
+  const uniforms = (belt.material as THREE.ShaderMaterial).uniforms
+  uniforms.uDistanceLut.value = sampleDistanceScale(distanceScale, uniforms.uLutMax.value)
+}
+
+/**
+ * Advances all belts to the simulation date.
+ * @param belts - Belt point clouds created by createBelts
+ * @param daysSinceJ2000 - Simulation date as days since the J2000 epoch
+ */
+export function updateBelts(belts: THREE.Points[], daysSinceJ2000: number) {
+  belts.forEach(belt => {
+    (belt.material as THREE.ShaderMaterial).uniforms.uDays.value = daysSinceJ2000
+  })
+}
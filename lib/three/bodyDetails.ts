@@ -0,0 +1,77 @@
+// Live facts about a labelled body for its hover details: distance from the Sun and current speed
+import * as THREE from 'three'
+import { getOrbitalElements, type OrbitalElements } from './orbits'
+import { getPositionAtDate } from './ephemeris'
+import { getOrbitingBodies, type SolarParams } from './solarSystem'
+import { getMissionState, type MissionObjects } from './missions'
+
+// =========================
+// Detail constants
+// =========================
+const SPEED_SAMPLE_DAYS = 0.01 // Time step of the finite difference giving the orbital speed
+const AU_MILLION_KM = 149.5978707 // One astronomical unit in million km
+const KM_PER_MILLION_KM = 1e6 // Ephemeris positions are in million km
+const SECONDS_PER_DAY = 86400 // Ephemeris times are in days
+
+// =========================
+// Body details
+// =========================
+
+/**
+ * Speed along an orbit at a date, from two nearby positions.
+ * @param elements - Orbital elements (relative to the parent)
+ * @param daysSinceJ2000 - Simulation date
+ * @returns Speed relative to the parent in km/s
+ */
+function getOrbitalSpeed(elements: OrbitalElements, daysSinceJ2000: number): number {
+  const before = getPositionAtDate(elements, daysSinceJ2000)
+  const after = getPositionAtDate(elements, daysSinceJ2000 + SPEED_SAMPLE_DAYS)
+  return (before.distanceTo(after) * KM_PER_MILLION_KM) / (SPEED_SAMPLE_DAYS * SECONDS_PER_DAY)
+}
+
+/**
+ * Formats the details line.
+ * @param distanceMkm - Distance from the Sun in million km
+ * @param speedKms - Speed in km/s
+ * @param parentName - Body the speed is measured around (the Sun if omitted)
+ */
+function formatDetails(distanceMkm: number, speedKms: number, parentName?: string): string {
+  const around = parentName ? ` around ${parentName}` : ''
+  return `${(distanceMkm / AU_MILLION_KM).toFixed(2)} AU from the Sun · ${speedKms.toFixed(1)} km/s${around}`
+}
+
+/**
+ * Details line of a labelled object: its distance from the Sun and its speed
+ * around the Sun (moons: around their planet). A moon's distance from the Sun
+ * is its planet's; the moon's own offset is negligible at that scale.
+ * @param params - Solar system parameters
+ * @param missions - Mission objects (spacecraft markers)
+ * @param object - Labelled object
+ * @param daysSinceJ2000 - Simulation date
+ * @returns The line, or null for objects without an orbit (e.g. a spacecraft outside its mission)
+ */
+export function getBodyDetails(
+  params: SolarParams,
+  missions: MissionObjects[],
+  object: THREE.Object3D,
+  daysSinceJ2000: number
+): string | null {
+  const mission = missions.find(m => m.marker === object)
+  if (mission) {
+    const state = getMissionState(mission, daysSinceJ2000)
+    return state && formatDetails(state.positionMkm.length(), state.speedKms)
+  }
+  for (const body of getOrbitingBodies(params)) {
+    const elements = getOrbitalElements(body)
+    if (!elements) continue
+    if (body.name === object.name) {
+      return formatDetails(getPositionAtDate(elements, daysSinceJ2000).length(), getOrbitalSpeed(elements, daysSinceJ2000))
+    }
+    const moon = body.moons?.find(m => m.name === object.name)
+    if (moon) {
+      const distanceMkm = getPositionAtDate(elements, daysSinceJ2000).length()
+      return formatDetails(distanceMkm, getOrbitalSpeed(moon.orbit, daysSinceJ2000), body.name)
+    }
+  }
+  return null
+}
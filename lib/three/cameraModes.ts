@@ -0,0 +1,474 @@
+// Camera modes besides orbiting: a free-fly spaceship (keyboard, mouse and gamepad),
+// a chase camera trailing a body along its orbit, and a view from a body's surface
+import * as THREE from 'three'
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { clearTracking, focusOnObject, getTrackedObject } from './objectTrackingCamera'
+import { getBodySceneRadius } from './solarSystem'
+import { isShown } from './labels'
+import type { FocusTarget } from './gui'
+
+// =========================
+// Camera mode constants
+// =========================
+const BLEND_SEC = 1.5 // Duration of the blend into the chase and surface views
+const FREE_FLY_SPEED = 0.5 // Free-fly speed, as a fraction of the distance to the nearest surface per second
+const FREE_FLY_MIN_SPEED = 1e-4 // Slowest free-fly speed (scene units/s), right above a surface
+const FREE_FLY_BOOST = 5 // Speed multiplier while Shift (or a stick press) is held
+const LOOK_SENSITIVITY = 0.003 // Radians of turn per pixel of mouse drag
+const KEY_TURN_SPEED = 1.2 // Radians per second turned by the arrow keys
+const GAMEPAD_TURN_SPEED = 2 // Radians per second turned by a fully deflected right stick
+const GAMEPAD_DEADZONE = 0.15 // Stick deflections below this are ignored
+const CHASE_DISTANCE_RADII = 8 // Chase camera distance behind the body, in body radii
+const CHASE_HEIGHT_RADII = 2 // Chase camera height above the orbit plane, in body radii
+const CHASE_STIFFNESS = 3 // How quickly (1/s) the chase camera swings behind a body changing direction
+const SURFACE_EYE_HEIGHT = 0.01 // Eye height above the surface, in body radii
+const SURFACE_LOOK_ELEVATION_DEG = 25 // Initial view angle above the horizon
+const MAX_PITCH = Math.PI / 2 - 0.01 // Surface view pitch limit (straight up / down)
+const ORBIT_TARGET_DISTANCE = 10 // Orbit pivot distance ahead of the camera after free-fly, when no body is near
+
+// =========================
+// Type Definitions
+// =========================
+
+export type CameraMode = 'orbit' | 'freeFly' | 'chase' | 'surface'
+
+// Display names for the GUI dropdown
+export const CAMERA_MODE_OPTIONS: Record<string, CameraMode> = {
+  'Orbit': 'orbit',
+  'Free-fly': 'freeFly',
+  'Chase': 'chase',
+  'Surface': 'surface',
+}
+
+export interface CameraModeSettings {
+  mode: CameraMode
+  body: string // Body followed by the chase camera or stood on by the surface view
+  latitude: number // Surface view position, in degrees
+  longitude: number
+}
+
+export const DEFAULT_CAMERA_MODE_SETTINGS: CameraModeSettings = {
+  mode: 'orbit',
+  body: 'Earth',
+  latitude: 45,
+  longitude: 0,
+}
+
+// Keys held down, by KeyboardEvent.code
+const MOVE_KEYS: Record<string, THREE.Vector3> = {
+  KeyW: new THREE.Vector3(0, 0, -1),
+  KeyS: new THREE.Vector3(0, 0, 1),
+  KeyA: new THREE.Vector3(-1, 0, 0),
+  KeyD: new THREE.Vector3(1, 0, 0),
+  KeyE: new THREE.Vector3(0, 1, 0),
+  KeyQ: new THREE.Vector3(0, -1, 0),
+}
+const TURN_KEYS: Record<string, THREE.Vector2> = {
+  ArrowLeft: new THREE.Vector2(1, 0),
+  ArrowRight: new THREE.Vector2(-1, 0),
+  ArrowUp: new THREE.Vector2(0, 1),
+  ArrowDown: new THREE.Vector2(0, -1),
+}
+
+// Standard gamepad mapping: left stick moves, right stick turns, triggers go down/up
+const GAMEPAD_AXIS_MOVE_X = 0
+const GAMEPAD_AXIS_MOVE_Z = 1
+const GAMEPAD_AXIS_TURN_X = 2
+const GAMEPAD_AXIS_TURN_Y = 3
+const GAMEPAD_BUTTON_DOWN = 6
+const GAMEPAD_BUTTON_UP = 7
+const GAMEPAD_BUTTON_BOOST = 10
+
+// =========================
+// Camera mode controller
+// =========================
+
+/**
+ * Drives the camera in the free-fly, chase and surface modes; in orbit mode
+ * it leaves the camera to the tracker and the orbit controls. Switching into
+ * the chase and surface views blends from the current pose. Poses are kept
+ * relative to bodies, so re-centering the world does not disturb them.
+ */
+export class CameraModeController {
+  private camera: THREE.PerspectiveCamera
+  private controls: OrbitControls
+  private domElement: HTMLElement
+  private targets: FocusTarget[]
+  private modeValue: CameraMode = 'orbit'
+  private settings: CameraModeSettings | null = null
+  private body: THREE.Object3D | null = null
+  private latitude = 0
+  private longitude = 0
+  private nearest: THREE.Object3D | null = null
+  // Blend from the pose at the switch (position relative to the body)
+  private blendElapsed = BLEND_SEC
+  private blendFromOffset = new THREE.Vector3()
+  private blendFromQuaternion = new THREE.Quaternion()
+  // Chase camera offset from its body (smoothed)
+  private chaseOffset = new THREE.Vector3()
+  private chaseDirection = new THREE.Vector3(1, 0, 0)
+  private lastHeliocentric: THREE.Vector3 | null = null
+  private sun: THREE.Object3D
+  // Surface view heading (from north) and pitch (above the horizon)
+  private heading = 0
+  private pitch = THREE.MathUtils.degToRad(SURFACE_LOOK_ELEVATION_DEG)
+  // Input
+  private keys = new Set<string>()
+  private dragPosition: THREE.Vector2 | null = null
+  private look = new THREE.Vector2() // Pending mouse turn in pixels (x: yaw, y: pitch)
+
+  /**
+   * @param camera - Scene camera
+   * @param controls - Orbit controls, disabled outside of orbit mode
+   * @param domElement - Canvas receiving mouse look drags
+   * @param targets - Bodies the modes can use (the GUI focus targets)
+   * @param sun - Sun mesh (chase direction reference)
+   */
+  constructor(
+    camera: THREE.PerspectiveCamera,
+    controls: OrbitControls,
+    domElement: HTMLElement,
+    targets: FocusTarget[],
+    sun: THREE.Object3D
+  ) {
+    this.camera = camera
+    this.controls = controls
+    this.domElement = domElement
+    this.targets = targets
+    this.sun = sun
+    window.addEventListener('keydown', this.handleKeyDown)
+    window.addEventListener('keyup', this.handleKeyUp)
+    window.addEventListener('blur', this.handleBlur)
+    domElement.addEventListener('pointerdown', this.handlePointerDown)
+    window.addEventListener('pointermove', this.handlePointerMove)
+    window.addEventListener('pointerup', this.handlePointerUp)
+  }
+
+  get mode() { return this.modeValue }
+  // Body to keep at the floating origin: the mode's body, or the nearest one in free-fly
+  get focus() {
+    if (this.modeValue === 'freeFly') return this.nearest
+    return this.modeValue === 'orbit' ? null : this.body
+  }
+
+  /**
+   * Switches mode (or the chase/surface body and position).
+   * @param settings - Camera mode settings
+   */
+  apply(settings: CameraModeSettings) {
+    const body = this.targets.find(t => t.name === settings.body)?.mesh ?? null
+    const previous = this.modeValue
+    const previousBody = this.body
+    this.settings = settings
+    this.modeValue = settings.mode
+    this.body = body
+    this.latitude = settings.latitude
+    this.longitude = settings.longitude
+    if (settings.mode === 'orbit') {
+      if (previous !== 'orbit') this.leaveToOrbit(previous, previousBody)
+      return
+    }
+    this.controls.enabled = false
+    clearTracking()
+    if (previous === settings.mode && previousBody === body) {
+      // A new surface position: walk there rather than jump
+      if (settings.mode === 'surface') this.startBlend()
+      return
+    }
+    this.keys.clear()
+    if (settings.mode === 'chase' || settings.mode === 'surface') this.startBlend()
+    if (settings.mode === 'chase') this.resetChase()
+    if (settings.mode === 'surface') {
+      this.heading = 0
+      this.pitch = THREE.MathUtils.degToRad(SURFACE_LOOK_ELEVATION_DEG)
+    }
+  }
+
+  /**
+   * Returns to orbit mode (updating the settings, e.g. for the GUI).
+   * @param handOver - Hand the camera to the orbit controls and the tracker;
+   * false when something else takes it over (e.g. a tour)
+   */
+  exitToOrbit(handOver = true) {
+    if (this.modeValue === 'orbit') return
+    if (this.settings) this.settings.mode = 'orbit'
+    if (handOver) {
+      this.apply(this.settings ?? { ...DEFAULT_CAMERA_MODE_SETTINGS, mode: 'orbit' })
+    } else {
+      this.modeValue = 'orbit'
+    }
+  }
+
+  /**
+   * Moves the camera in the current mode. Call once per frame, after the
+   * bodies moved. Focusing a body (the tracker) switches back to orbit mode.
+   * @param realDeltaSec - Real (wall clock) seconds since the last frame
+   * @returns Whether the mode drove the camera (false in orbit mode)
+   */
+  update(realDeltaSec: number): boolean {
+    if (getTrackedObject()) this.exitToOrbit()
+    if (this.modeValue === 'orbit') return false
+    const gamepad = this.readGamepad()
+    if (this.modeValue === 'freeFly') {
+      this.updateFreeFly(realDeltaSec, gamepad)
+    } else if (this.body) {
+      const position = new THREE.Vector3()
+      const quaternion = new THREE.Quaternion()
+      if (this.modeValue === 'chase') this.getChasePose(realDeltaSec, position, quaternion)
+      else this.getSurfacePose(realDeltaSec, gamepad, position, quaternion)
+      this.applyBlend(realDeltaSec, position, quaternion)
+    }
+    this.look.set(0, 0)
+    this.camera.updateMatrixWorld()
+    return true
+  }
+
+  dispose() {
+    window.removeEventListener('keydown', this.handleKeyDown)
+    window.removeEventListener('keyup', this.handleKeyUp)
+    window.removeEventListener('blur', this.handleBlur)
+    this.domElement.removeEventListener('pointerdown', this.handlePointerDown)
+    window.removeEventListener('pointermove', this.handlePointerMove)
+    window.removeEventListener('pointerup', this.handlePointerUp)
+    this.controls.enabled = true
+  }
+
+  /**
+   * Hands the camera back to the orbit controls without a jump: they pivot
+   * around a point straight ahead, and after the chase or surface view the
+   * tracker then eases the view out to the body (unless a body was just
+   * focused, which the tracker eases to instead).
+   * @param previous - Mode being left
+   * @param body - Body of the mode being left
+   */
+  private leaveToOrbit(previous: CameraMode, body: THREE.Object3D | null) {
+    this.controls.enabled = true
+    this.keys.clear()
+    this.dragPosition = null
+    const pivot = previous === 'freeFly' ? this.nearest : body
+    const distance = pivot ? pivot.getWorldPosition(new THREE.Vector3()).distanceTo(this.camera.position) : ORBIT_TARGET_DISTANCE
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.camera.quaternion)
+    this.controls.target.copy(this.camera.position).addScaledVector(forward, Math.max(distance, FREE_FLY_MIN_SPEED))
+    if (previous !== 'freeFly' && body && !getTrackedObject()) focusOnObject(body, getBodySceneRadius(body))
+  }
+
+  // Records the current pose as the start of a blend into the mode's view
+  private startBlend() {
+    if (!this.body) return
+    this.blendElapsed = 0
+    this.blendFromOffset.copy(this.camera.position).sub(this.body.getWorldPosition(new THREE.Vector3()))
+    this.blendFromQuaternion.copy(this.camera.quaternion)
+  }
+
+  /**
+   * Places the camera at a mode's pose, blended from the start pose while a blend runs.
+   * @param deltaSec - Real seconds since the last frame
+   * @param position - Pose position (world space)
+   * @param quaternion - Pose orientation
+   */
+  private applyBlend(deltaSec: number, position: THREE.Vector3, quaternion: THREE.Quaternion) {
+    this.blendElapsed = Math.min(this.blendElapsed + deltaSec, BLEND_SEC)
+    const s = THREE.MathUtils.smootherstep(this.blendElapsed / BLEND_SEC, 0, 1)
+    const from = this.body!.getWorldPosition(new THREE.Vector3()).add(this.blendFromOffset)
+    this.camera.position.lerpVectors(from, position, s)
+    this.camera.quaternion.slerpQuaternions(this.blendFromQuaternion, quaternion, s)
+  }
+
+  /**
+   * Spaceship flight: WASD (or the left stick) moves along the view, Q/E (or
+   * the triggers) down/up, mouse drags, arrow keys or the right stick turn.
+   * The speed scales with the distance to the nearest surface, so the ship
+   * crosses the solar system quickly yet slows down when landing.
+   * @param deltaSec - Real seconds since the last frame
+   * @param gamepad - Gamepad input (move and turn), if any
+   */
+  private updateFreeFly(deltaSec: number, gamepad: { move: THREE.Vector3; turn: THREE.Vector2; boost: boolean }) {
+    const turn = this.getKeyTurn().multiplyScalar(KEY_TURN_SPEED * deltaSec)
+      .addScaledVector(gamepad.turn, GAMEPAD_TURN_SPEED * deltaSec)
+      .addScaledVector(this.look, -LOOK_SENSITIVITY)
+    this.camera.rotateY(turn.x)
+    this.camera.rotateX(turn.y)
+
+    this.nearest = this.findNearest()
+    const surfaceDistance = this.nearest ? this.getSurfaceDistance(this.nearest) : ORBIT_TARGET_DISTANCE
+    const boost = this.keys.has('ShiftLeft') || this.keys.has('ShiftRight') || gamepad.boost ? FREE_FLY_BOOST : 1
+    const speed = Math.max(surfaceDistance * FREE_FLY_SPEED, FREE_FLY_MIN_SPEED) * boost
+    const move = this.getKeyMove().add(gamepad.move)
+    if (move.lengthSq() > 1) move.normalize()
+    this.camera.position.add(move.applyQuaternion(this.camera.quaternion).multiplyScalar(speed * deltaSec))
+  }
+
+  /**
+   * Chase view: behind the body along its direction of travel around the Sun,
+   * a little above it, looking at it. The offset swings smoothly when the
+   * direction changes (e.g. time reversed).
+   * @param deltaSec - Real seconds since the last frame
+   * @param position - Receives the camera position (world space)
+   * @param quaternion - Receives the camera orientation
+   */
+  private getChasePose(deltaSec: number, position: THREE.Vector3, quaternion: THREE.Quaternion) {
+    const body = this.body!
+    const center = body.getWorldPosition(new THREE.Vector3())
+    // Heliocentric position: unaffected by the floating origin and the reference frame
+    const heliocentric = center.clone().sub(this.sun.getWorldPosition(new THREE.Vector3()))
+    if (this.lastHeliocentric) {
+      const travel = heliocentric.clone().sub(this.lastHeliocentric)
+      // Keep the last direction while time is paused
+      if (travel.lengthSq() > 0) this.chaseDirection.copy(travel.normalize())
+    }
+    this.lastHeliocentric = heliocentric
+    this.chaseOffset.lerp(this.getChaseOffset(body), 1 - Math.exp(-CHASE_STIFFNESS * deltaSec))
+    position.copy(center).add(this.chaseOffset)
+    quaternion.setFromRotationMatrix(new THREE.Matrix4().lookAt(position, center, this.camera.up))
+  }
+
+  // Desired chase offset from the body: behind it and above the orbit plane
+  private getChaseOffset(body: THREE.Object3D): THREE.Vector3 {
+    const radius = getBodySceneRadius(body)
+    return this.chaseDirection.clone().multiplyScalar(-CHASE_DISTANCE_RADII * radius)
+      .add(new THREE.Vector3(0, CHASE_HEIGHT_RADII * radius, 0))
+  }
+
+  // Starts the chase from the body's current direction of travel (the blend hides the jump)
+  private resetChase() {
+    this.lastHeliocentric = null
+    if (!this.body) return
+    const center = this.body.getWorldPosition(new THREE.Vector3())
+    const fromSun = center.sub(this.sun.getWorldPosition(new THREE.Vector3()))
+    // Until the body moves, assume a prograde circular orbit (counterclockwise seen from the north)
+    if (fromSun.lengthSq() > 0) this.chaseDirection.set(fromSun.z, 0, -fromSun.x).normalize()
+    this.chaseOffset.copy(this.getChaseOffset(this.body))
+  }
+
+  /**
+   * Surface view: standing at the latitude/longitude (turning with the body's
+   * spin) and looking at the sky, with the heading and pitch turned by mouse
+   * drags, the arrow keys or the right stick.
+   * @param deltaSec - Real seconds since the last frame
+   * @param gamepad - Gamepad input (turn), if any
+   * @param position - Receives the camera position (world space)
+   * @param quaternion - Receives the camera orientation
+   */
+  private getSurfacePose(
+    deltaSec: number,
+    gamepad: { turn: THREE.Vector2 },
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion
+  ) {
+    const turn = this.getKeyTurn().multiplyScalar(KEY_TURN_SPEED * deltaSec)
+      .addScaledVector(gamepad.turn, GAMEPAD_TURN_SPEED * deltaSec)
+      .addScaledVector(this.look, -LOOK_SENSITIVITY)
+    this.heading += turn.x
+    this.pitch = THREE.MathUtils.clamp(this.pitch + turn.y, -MAX_PITCH, MAX_PITCH)
+
+    // The spinning mesh: a group's `_body` child, or the body itself
+    const body = this.body!
+    const spinning = body.getObjectByName(`${body.name}_body`) ?? body
+    // The body moved and turned this frame
+    spinning.updateWorldMatrix(true, false)
+    const geometry = (spinning as THREE.Mesh).geometry
+    if (geometry && !geometry.boundingSphere) geometry.computeBoundingSphere()
+    const localRadius = geometry?.boundingSphere?.radius ?? 1
+    const lat = THREE.MathUtils.degToRad(this.latitude)
+    const lon = THREE.MathUtils.degToRad(this.longitude)
+    const local = new THREE.Vector3(Math.cos(lat) * Math.sin(lon), Math.sin(lat), Math.cos(lat) * Math.cos(lon))
+    position.copy(spinning.localToWorld(local.multiplyScalar(localRadius * (1 + SURFACE_EYE_HEIGHT))))
+
+    // Local horizon frame: up from the center, north towards the spin axis
+    const center = spinning.getWorldPosition(new THREE.Vector3())
+    const up = position.clone().sub(center).normalize()
+    const axis = new THREE.Vector3(0, 1, 0).transformDirection(spinning.matrixWorld)
+    const north = axis.addScaledVector(up, -axis.dot(up))
+    // At the poles any direction is north
+    if (north.lengthSq() < 1e-8) north.set(1, 0, 0).addScaledVector(up, -up.x)
+    north.normalize()
+    const view = north.applyAxisAngle(up, this.heading)
+    const side = new THREE.Vector3().crossVectors(view, up).normalize()
+    view.applyAxisAngle(side, this.pitch)
+    quaternion.setFromRotationMatrix(new THREE.Matrix4().lookAt(position, position.clone().add(view), up))
+  }
+
+  // Closest visible body surface to the camera
+  private findNearest(): THREE.Object3D | null {
+    let nearest: THREE.Object3D | null = null
+    let nearestDistance = Infinity
+    for (const { mesh } of this.targets) {
+      if (!isShown(mesh)) continue
+      const distance = this.getSurfaceDistance(mesh)
+      if (distance < nearestDistance) {
+        nearest = mesh
+        nearestDistance = distance
+      }
+    }
+    return nearest
+  }
+
+  private getSurfaceDistance(mesh: THREE.Object3D): number {
+    return Math.max(0, mesh.getWorldPosition(new THREE.Vector3()).distanceTo(this.camera.position) - getBodySceneRadius(mesh))
+  }
+
+  // Movement direction from the held keys (camera space)
+  private getKeyMove(): THREE.Vector3 {
+    const move = new THREE.Vector3()
+    this.keys.forEach(code => { if (MOVE_KEYS[code]) move.add(MOVE_KEYS[code]) })
+    return move
+  }
+
+  // Turn direction from the held arrow keys (x: yaw left, y: pitch up)
+  private getKeyTurn(): THREE.Vector2 {
+    const turn = new THREE.Vector2()
+    this.keys.forEach(code => { if (TURN_KEYS[code]) turn.add(TURN_KEYS[code]) })
+    return turn
+  }
+
+  // Reads the first connected gamepad (standard mapping), with a deadzone on the sticks
+  private readGamepad(): { move: THREE.Vector3; turn: THREE.Vector2; boost: boolean } {
+    const input = { move: new THREE.Vector3(), turn: new THREE.Vector2(), boost: false }
+    const gamepad = navigator.getGamepads?.().find(pad => pad?.connected)
+    if (!gamepad) return input
+    const axis = (index: number) => {
+      const value = gamepad.axes[index] ?? 0
+      return Math.abs(value) < GAMEPAD_DEADZONE ? 0 : value
+    }
+    const button = (index: number) => gamepad.buttons[index]?.value ?? 0
+    input.move.set(axis(GAMEPAD_AXIS_MOVE_X), button(GAMEPAD_BUTTON_UP) - button(GAMEPAD_BUTTON_DOWN), axis(GAMEPAD_AXIS_MOVE_Z))
+    input.turn.set(-axis(GAMEPAD_AXIS_TURN_X), -axis(GAMEPAD_AXIS_TURN_Y))
+    input.boost = Boolean(gamepad.buttons[GAMEPAD_BUTTON_BOOST]?.pressed)
+    return input
+  }
+
+  // Keys only steer the camera outside of orbit mode, and not while typing in a form field
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (this.modeValue === 'orbit') return
+    const target = event.target as HTMLElement | null
+    if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return
+    if (MOVE_KEYS[event.code] || TURN_KEYS[event.code]) event.preventDefault()
+    this.keys.add(event.code)
+  }
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    this.keys.delete(event.code)
+  }
+
+  // Keys released while the window is in the background would stay held
+  private handleBlur = () => {
+    this.keys.clear()
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (this.modeValue === 'orbit' || this.modeValue === 'chase') return
+    this.dragPosition = new THREE.Vector2(event.clientX, event.clientY)
+  }
+
+  // Dragging turns the free-fly ship or the surface view
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.dragPosition) return
+    this.look.x += event.clientX - this.dragPosition.x
+    this.look.y += event.clientY - this.dragPosition.y
+    this.dragPosition.set(event.clientX, event.clientY)
+  }
+
+  private handlePointerUp = () => {
+    this.dragPosition = null
+  }
+}
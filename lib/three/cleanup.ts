@@ -1,6 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // Utility to clean up three.js scene, renderer, controls, meshes, and label renderer
-import { Object3D, Camera } from 'three'
+import { Object3D, Camera, Material, Texture } from 'three'
+import { materialRegistry } from './materialRegistry'
+
+// Materials of a mesh, including the lit/unlit variant not currently assigned (see lighting.ts)
+function getMaterials(object: any): Material[] {
+  const assigned: Material[] = Array.isArray(object.material) ? object.material : object.material ? [object.material] : []
+  const lit: Material | undefined = object.userData?.litMaterial
+  const all = lit && !assigned.includes(lit) ? [...assigned, lit] : assigned
+  return [...all, ...all.map(m => m.userData?.unlitMaterial).filter((m): m is Material => !!m && !all.includes(m))]
+}
 
 export function cleanupThreeScene({
   frameId,
@@ -26,10 +35,20 @@ export function cleanupThreeScene({
   // Dispose renderers and controls
   renderer.dispose()
   controls.dispose()
-  // Dispose geometries
+  // Dispose geometries and materials, including child layers (rings, clouds, atmospheres),
+  // and release body textures (disposed by the registry once no scene uses them).
   meshes.forEach(mesh => {
-    if (mesh && typeof (mesh as any).geometry?.dispose === 'function') {
-      (mesh as any).geometry.dispose()
-    }
+    mesh?.traverse((child: any) => {
+      if (typeof child.geometry?.dispose === 'function') {
+        child.geometry.dispose()
+      }
+      getMaterials(child).forEach(material => material.dispose())
+      child.customDistanceMaterial?.dispose()
+      // Procedural textures created for the mesh (e.g. ring profiles)
+      child.userData?.ownedTextures?.forEach((texture: Texture) => texture.dispose())
+      if (child.userData?.materialId) {
+        materialRegistry.release(child.userData.materialId)
+      }
+    })
   })
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,148 @@
+// Comet tails: GPU-animated particle streams pointing away from the Sun
+import * as THREE from 'three'
+import { makeSeededRandom } from '../utils/math'
+import type { DistanceScale, OrbitalElements } from './orbits'
+
+// =========================
+// Tail constants
+// =========================
+const TAIL_PARTICLES = 600 // Particles per tail
+const TAIL_MAX_LENGTH_MKM = 80 // Tail length at perihelion in million km (real tails reach ~0.5 AU)
+const TAIL_FALLOFF_EXPONENT = 2 // Activity ∝ (perihelion / distance)^n, like sunlight intensity
+const TAIL_MIN_ACTIVITY = 0.01 // Below this the tail is hidden (the comet is effectively dormant)
+const TAIL_SPREAD = 0.12 // Tail half-width at its end, as a fraction of its length
+const TAIL_FLOW_SPEED_MIN = 0.15 // Slowest particle flow along the tail (tail lengths per second)
+const TAIL_FLOW_SPEED_MAX = 0.4 // Fastest particle flow along the tail (tail lengths per second)
+const TAIL_POINT_SIZE = 1.5 // Particle size at the head, shrinking towards the end
+const TAIL_COLOR = '#bfe3ff' // Bluish white of ionized gas and sunlit dust
+const POINT_SIZE_ATTENUATION = 300 // Reference screen scale for perspective point sizing
+const TWO_PI = Math.PI * 2
+
+// =========================
+// Shaders
+// =========================
+const tailVertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+  attribute vec4 aSeed; // start fraction along the tail, angle around the axis, radial fraction, flow speed
+  uniform float uTime;
+  uniform float uLength;
+  uniform vec3 uDirection;
+  uniform float uSize;
+  varying float vFade;
+
+  void main() {
+    // Particles stream from the head to the end of the tail and wrap around
+    float t = fract(aSeed.x + aSeed.w * uTime);
+    // Basis perpendicular to the tail axis
+    vec3 helper = abs(uDirection.y) < 0.99 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+    vec3 side = normalize(cross(uDirection, helper));
+    vec3 up = cross(side, uDirection);
+    float spread = uLength * ${TAIL_SPREAD.toFixed(3)} * t * aSeed.z;
+    vec3 pos = uDirection * (t * uLength) + (side * cos(aSeed.y) + up * sin(aSeed.y)) * spread;
+
+    vFade = 1.0 - t;
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_PointSize = max(1.0, uSize * vFade * ${POINT_SIZE_ATTENUATION.toFixed(1)} / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+    #include <logdepthbuf_vertex>
+  }
+`
+
+const tailFragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  varying float vFade;
+
+  void main() {
+    #include <logdepthbuf_fragment>
+    // Soft round particles
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    gl_FragColor = vec4(uColor, uOpacity * vFade * (1.0 - 2.0 * d));
+  }
+`
+
+// =========================
+// Tail creation & updates
+// =========================
+
+/**
+ * Creates a comet tail. The tail is a separate scene object (not a child of the
+ * spinning nucleus) that is moved onto the comet by updateCometTail.
+ * @param name - Comet name (the tail is named `${name}_tail`)
+ * @param seed - Seed for the particle distribution
+ */
+export function createCometTail(name: string, seed = 1): THREE.Points {
+  const random = makeSeededRandom(seed)
+  const seeds = new Float32Array(TAIL_PARTICLES * 4)
+  for (let i = 0; i < TAIL_PARTICLES; i++) {
+    seeds[i * 4] = random()
+    seeds[i * 4 + 1] = random() * TWO_PI
+    seeds[i * 4 + 2] = Math.sqrt(random()) // Uniform over the tail's cross-section
+    seeds[i * 4 + 3] = THREE.MathUtils.lerp(TAIL_FLOW_SPEED_MIN, TAIL_FLOW_SPEED_MAX, random())
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  // Positions are computed in the shader; the attribute only sets the draw count
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(TAIL_PARTICLES * 3), 3))
+  geometry.setAttribute('aSeed', new THREE.Float32BufferAttribute(seeds, 4))
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uTime: { value: 0 },
+      uLength: { value: 0 },
+      uDirection: { value: new THREE.Vector3(1, 0, 0) },
+      uSize: { value: TAIL_POINT_SIZE },
+      uColor: { value: new THREE.Color(TAIL_COLOR) },
+      uOpacity: { value: 0 },
+    },
+    vertexShader: tailVertexShader,
+    fragmentShader: tailFragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  })
+
+  const tail = new THREE.Points(geometry, material)
+  tail.name = `${name}_tail`
+  // Bounding volume of the placeholder positions is meaningless
+  tail.frustumCulled = false
+  tail.visible = false
+  return tail
+}
+
+/**
+ * Moves a tail onto its comet, points it away from the Sun and sizes it by
+ * activity, which grows sharply towards perihelion.
+ * @param tail - Tail created by createCometTail
+ * @param headPosition - Scene position of the comet nucleus
+ * @param positionMkm - Heliocentric position of the comet in million km
+ * @param elements - Orbital elements of the comet (for the perihelion distance)
+ * @param distanceScale - Heliocentric distance → scene distance mapping
+ * @param timeSec - Animation time in seconds (drives the particle flow)
+ */
+export function updateCometTail(
+  tail: THREE.Object3D,
+  headPosition: THREE.Vector3,
+  positionMkm: THREE.Vector3,
+  elements: OrbitalElements,
+  distanceScale: DistanceScale,
+  timeSec: number
+) {
+  const r = positionMkm.length()
+  const perihelion = elements.semi_major_axis_million_km * (1 - elements.eccentricity)
+  const activity = r > 0 ? Math.min(1, Math.pow(perihelion / r, TAIL_FALLOFF_EXPONENT)) : 0
+  tail.visible = activity > TAIL_MIN_ACTIVITY
+  if (!tail.visible || !(tail instanceof THREE.Points)) return
+
+  const uniforms = (tail.material as THREE.ShaderMaterial).uniforms
+  tail.position.copy(headPosition)
+  // The Sun sits at the origin, so the anti-solar direction is the comet's own direction
+  uniforms.uDirection.value.copy(headPosition).normalize()
+  // Length in scene units follows the active distance scale, so tails respect the scaling mode
+  uniforms.uLength.value = distanceScale(r + TAIL_MAX_LENGTH_MKM * activity) - distanceScale(r)
+  uniforms.uOpacity.value = activity
+  uniforms.uTime.value = timeSec
+}
@@ -0,0 +1,93 @@
+// Sun corona: a camera-facing glow with slowly drifting streamers around the Sun
+import * as THREE from 'three'
+
+// =========================
+// Corona constants
+// =========================
+const CORONA_EXTENT = 3 // Corona radius in Sun radii
+const CORONA_COLOR = 0xffd27a // Warm white-yellow
+const CORONA_FALLOFF_POWER = 3 // Sharpness of the fade towards the outer edge
+
+// =========================
+// Shaders
+// =========================
+const coronaVertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    // Billboard: offset the corners in view space so the quad always faces the camera,
+    // keeping the Sun's scale (scale modes resize the Sun mesh)
+    float scale = length(modelMatrix[0].xyz);
+    vec4 mvPosition = modelViewMatrix * vec4(0.0, 0.0, 0.0, 1.0);
+    mvPosition.xy += position.xy * scale;
+    gl_Position = projectionMatrix * mvPosition;
+    #include <logdepthbuf_vertex>
+  }
+`
+
+const coronaFragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+  uniform vec3 uColor;
+  uniform float uTime;
+  uniform float uIntensity;
+  uniform float uInner;
+  varying vec2 vUv;
+
+  void main() {
+    #include <logdepthbuf_fragment>
+    vec2 p = vUv * 2.0 - 1.0;
+    float r = length(p);
+    float angle = atan(p.y, p.x);
+    // Streamers: angular waves drifting in opposite directions
+    float rays = 0.6 + 0.25 * sin(angle * 9.0 + uTime * 0.2) + 0.15 * sin(angle * 23.0 - uTime * 0.35);
+    // Full strength at the solar limb (uInner), fading out at the quad edge
+    float falloff = pow(clamp((1.0 - r) / (1.0 - uInner), 0.0, 1.0), ${CORONA_FALLOFF_POWER.toFixed(1)});
+    gl_FragColor = vec4(uColor, falloff * rays * uIntensity);
+  }
+`
+
+// =========================
+// Corona creation & updates
+// =========================
+
+/**
+ * Creates the corona around the Sun. Add it as a child of the Sun mesh.
+ * @param name - Sun name (the corona is named `${name}_corona`)
+ * @param sunRadius - Scene radius of the Sun
+ */
+export function createCorona(name: string, sunRadius: number): THREE.Mesh {
+  const size = sunRadius * CORONA_EXTENT * 2
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uColor: { value: new THREE.Color(CORONA_COLOR) },
+      uTime: { value: 0 },
+      uIntensity: { value: 1 },
+      uInner: { value: 1 / CORONA_EXTENT },
+    },
+    vertexShader: coronaVertexShader,
+    fragmentShader: coronaFragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  })
+  const corona = new THREE.Mesh(new THREE.PlaneGeometry(size, size), material)
+  corona.name = `${name}_corona`
+  // The billboard is moved in the shader, so the plane's own bounds are meaningless
+  corona.frustumCulled = false
+  return corona
+}
+
+/**
+ * Animates the corona streamers.
+ * @param corona - Mesh created by createCorona
+ * @param timeSec - Real time in seconds
+ * @param intensity - Glow strength
+ */
+export function updateCorona(corona: THREE.Mesh, timeSec: number, intensity: number) {
+  const material = corona.material as THREE.ShaderMaterial
+  material.uniforms.uTime.value = timeSec
+  material.uniforms.uIntensity.value = intensity
+}
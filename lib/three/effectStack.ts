@@ -0,0 +1,153 @@
+// Configurable visual effects: Sun bloom, corona, lens flare, film grain and vignette
+import * as THREE from 'three'
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js'
+import type { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js'
+import { createLensFlarePass, createGrainVignettePass } from './postprocessingEffects'
+import { createCorona, updateCorona } from './corona'
+import { getBodySceneRadius } from './solarSystem'
+import { isShown } from './labels'
+
+// =========================
+// Effect constants
+// =========================
+export const EFFECT_SETTINGS_STORAGE_KEY = 'solar5d.effects' // localStorage key of the user's effect settings
+const FLARE_EDGE_FADE_START = 0.8 // Flare fades out from here (NDC) to the screen edge
+
+// =========================
+// Type Definitions
+// =========================
+
+// User-tunable effect settings (persisted, see EFFECT_SETTINGS_STORAGE_KEY)
+export interface EffectSettings {
+  bloom: boolean
+  bloomStrength: number
+  bloomRadius: number
+  bloomThreshold: number // Only pixels brighter than this glow (the Sun)
+  corona: boolean
+  coronaIntensity: number
+  lensFlare: boolean
+  lensFlareIntensity: number
+  filmGrain: boolean
+  grainIntensity: number
+  vignette: boolean
+  vignetteDarkness: number
+}
+
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  bloom: true,
+  bloomStrength: 1.2,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.9,
+  corona: true,
+  coronaIntensity: 1,
+  lensFlare: true,
+  lensFlareIntensity: 0.6,
+  filmGrain: false,
+  grainIntensity: 0.05,
+  vignette: false,
+  vignetteDarkness: 0.4,
+}
+
+// Passes (added to the composer by the caller, in render order), the corona mesh
+// and the bodies that can hide the Sun from the lens flare
+export interface EffectStack {
+  bloom: UnrealBloomPass
+  lensFlare: ShaderPass
+  grainVignette: ShaderPass
+  corona: THREE.Mesh
+  occluders: THREE.Object3D[]
+}
+
+// =========================
+// Effect stack
+// =========================
+
+/**
+ * Creates the effect passes and adds the corona to the Sun.
+ * @param sun - Sun mesh (userData.baseRadius is its scene radius)
+ * @param width - Viewport width in pixels
+ * @param height - Viewport height in pixels
+ * @param occluders - Bodies that can pass in front of the Sun (planets, moons, ...)
+ */
+export function createEffectStack(sun: THREE.Object3D, width: number, height: number, occluders: THREE.Object3D[]): EffectStack {
+  const { bloomStrength, bloomRadius, bloomThreshold } = DEFAULT_EFFECT_SETTINGS
+  const bloom = new UnrealBloomPass(new THREE.Vector2(width, height), bloomStrength, bloomRadius, bloomThreshold)
+  const corona = createCorona(sun.name, sun.userData.baseRadius)
+  sun.add(corona)
+  return { bloom, lensFlare: createLensFlarePass(), grainVignette: createGrainVignettePass(), corona, occluders }
+}
+
+/**
+ * Applies the user's settings to the stack.
+ * @param stack - Effect stack
+ * @param settings - Effect settings
+ * @param postProcessing - Whether the quality tier allows screen-space passes
+ */
+export function applyEffectSettings(stack: EffectStack, settings: EffectSettings, postProcessing: boolean) {
+  const { bloom, lensFlare, grainVignette, corona } = stack
+  bloom.enabled = postProcessing && settings.bloom
+  bloom.strength = settings.bloomStrength
+  bloom.radius = settings.bloomRadius
+  bloom.threshold = settings.bloomThreshold
+  corona.visible = settings.corona
+  lensFlare.enabled = postProcessing && settings.lensFlare
+  lensFlare.uniforms.intensity.value = settings.lensFlareIntensity
+  grainVignette.enabled = postProcessing && (settings.filmGrain || settings.vignette)
+  grainVignette.uniforms.grain.value = settings.filmGrain ? settings.grainIntensity : 0
+  grainVignette.uniforms.vignette.value = settings.vignette ? settings.vignetteDarkness : 0
+}
+
+/**
+ * Fraction of the Sun's disk left uncovered by the occluders, as seen from the
+ * camera. Each body is compared as a disk: the Sun fades out as a body's disk
+ * slides over it, down to the share of the Sun the body can cover.
+ * @param camera - Rendering camera
+ * @param sun - Sun mesh
+ * @param occluders - Bodies that can pass in front of the Sun
+ */
+function getSunVisibility(camera: THREE.PerspectiveCamera, sun: THREE.Object3D, occluders: THREE.Object3D[]): number {
+  const toSun = sun.getWorldPosition(new THREE.Vector3()).sub(camera.position)
+  const sunDistance = toSun.length()
+  const sunAngle = Math.asin(Math.min(1, getBodySceneRadius(sun) / sunDistance))
+  const toBody = new THREE.Vector3()
+  let visibility = 1
+  for (const body of occluders) {
+    if (!isShown(body)) continue
+    body.getWorldPosition(toBody).sub(camera.position)
+    const distance = toBody.length()
+    if (distance >= sunDistance) continue
+    const bodyAngle = Math.asin(Math.min(1, getBodySceneRadius(body) / distance))
+    const separation = toBody.angleTo(toSun)
+    if (separation >= bodyAngle + sunAngle) continue
+    // Largest share of the Sun's disk this body can cover
+    const maxCover = Math.min(1, (bodyAngle / sunAngle) ** 2)
+    const overlap = 1 - THREE.MathUtils.smoothstep(separation, Math.abs(bodyAngle - sunAngle), bodyAngle + sunAngle)
+    visibility = Math.min(visibility, 1 - maxCover * overlap)
+  }
+  return visibility
+}
+
+/**
+ * Per-frame updates: corona animation, grain noise and the Sun's screen
+ * position for the lens flare (faded out towards the screen edges, off screen
+ * and while a body covers the Sun).
+ * @param stack - Effect stack
+ * @param settings - Effect settings
+ * @param camera - Rendering camera
+ * @param sun - Sun mesh
+ * @param timeSec - Real time in seconds
+ */
+export function updateEffectStack(stack: EffectStack, settings: EffectSettings, camera: THREE.PerspectiveCamera, sun: THREE.Object3D, timeSec: number) {
+  const { lensFlare, grainVignette, corona } = stack
+  updateCorona(corona, timeSec, settings.coronaIntensity)
+  grainVignette.uniforms.time.value = timeSec
+  if (!lensFlare.enabled) return
+  const ndc = sun.getWorldPosition(new THREE.Vector3()).project(camera)
+  const edge = Math.max(Math.abs(ndc.x), Math.abs(ndc.y))
+  const inFront = ndc.z < 1
+  lensFlare.uniforms.visibility.value = inFront
+    ? (1 - THREE.MathUtils.smoothstep(edge, FLARE_EDGE_FADE_START, 1)) * getSunVisibility(camera, sun, stack.occluders)
+    : 0
+  lensFlare.uniforms.sunPosition.value.set((ndc.x + 1) / 2, (ndc.y + 1) / 2)
+  lensFlare.uniforms.aspect.value = camera.aspect
+}
@@ -0,0 +1,79 @@
+// Calendar date helpers and mean-element ephemeris (J2000 epoch, JPL approximate elements)
+import * as THREE from 'three'
+import { getMeanAnomaly, getOrbitalPosition, type OrbitalElements } from './orbits'
+
+// =========================
+// Time constants
+// =========================
+export const MS_PER_DAY = 86400000 // Milliseconds in one day
+const DAYS_PER_CENTURY = 36525 // Julian century length, the unit of the element rates
+const JULIAN_DATE_UNIX_EPOCH = 2440587.5 // Julian Date of 1970-01-01T00:00:00Z
+export const JULIAN_DATE_J2000 = 2451545.0 // Julian Date of the J2000 epoch (2000-01-01T12:00:00 TT)
+
+/**
+ * Converts a UTC timestamp to a Julian Date.
+ * @param timeMs - Milliseconds since the Unix epoch
+ */
+export function toJulianDate(timeMs: number): number {
+  return timeMs / MS_PER_DAY + JULIAN_DATE_UNIX_EPOCH
+}
+
+/**
+ * Days elapsed since the J2000 epoch for a UTC timestamp.
+ * @param timeMs - Milliseconds since the Unix epoch
+ */
+export function getDaysSinceJ2000(timeMs: number): number {
+  return toJulianDate(timeMs) - JULIAN_DATE_J2000
+}
+
+/**
+ * Parses a 'YYYY-MM-DD' (or full ISO) string as a UTC timestamp.
+ * @returns Milliseconds since the Unix epoch, or null if the string is invalid
+ */
+export function parseUtcDate(value: string): number | null {
+  const time = Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value)
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Formats a UTC timestamp as 'YYYY-MM-DD'.
+ */
+export function formatUtcDate(timeMs: number): string {
+  return new Date(timeMs).toISOString().slice(0, 10)
+}
+
+/**
+ * Returns the orbital elements at a date, applying the secular
+ * per-century drift when the data provides it.
+ * @param elements - Orbital elements at J2000
+ * @param daysSinceJ2000 - Days elapsed since the J2000 epoch
+ */
+export function getElementsAtDate(elements: OrbitalElements, daysSinceJ2000: number): OrbitalElements {
+  const rates = elements.rates_per_century
+  if (!rates) return elements
+  const centuries = daysSinceJ2000 / DAYS_PER_CENTURY
+  return {
+    ...elements,
+    semi_major_axis_million_km: elements.semi_major_axis_million_km + (rates.semi_major_axis_million_km ?? 0) * centuries,
+    eccentricity: elements.eccentricity + (rates.eccentricity ?? 0) * centuries,
+    inclination_deg: elements.inclination_deg + (rates.inclination_deg ?? 0) * centuries,
+    longitude_ascending_node_deg: elements.longitude_ascending_node_deg + (rates.longitude_ascending_node_deg ?? 0) * centuries,
+    argument_perihelion_deg: elements.argument_perihelion_deg + (rates.argument_perihelion_deg ?? 0) * centuries,
+  }
+}
+
+/**
+ * Position of a body relative to its parent at a date.
+ * @param elements - Orbital elements at J2000
+ * @param daysSinceJ2000 - Days elapsed since the J2000 epoch
+ * @param target - Vector to write into
+ * @returns Position in million km (Three.js axes)
+ */
+export function getPositionAtDate(
+  elements: OrbitalElements,
+  daysSinceJ2000: number,
+  target = new THREE.Vector3()
+): THREE.Vector3 {
+  const current = getElementsAtDate(elements, daysSinceJ2000)
+  return getOrbitalPosition(current, getMeanAnomaly(current, daysSinceJ2000), target)
+}
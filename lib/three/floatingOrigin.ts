@@ -0,0 +1,43 @@
+// Floating origin: the rendered world is re-centered on the tracked object, so the
+// coordinates around the camera stay small and precise at any scale (no jitter when
+// zoomed onto a small body far from the Sun)
+import * as THREE from 'three'
+import { getTrackedObject, shiftTrackingCamera } from './objectTrackingCamera'
+
+// =========================
+// Floating origin constants
+// =========================
+const REBASE_DISTANCE = 1 // Re-center once the tracked object is this far (scene units) from the origin
+
+// =========================
+// World root & re-centering
+// =========================
+
+/**
+ * Creates the group holding every solar system object (the reference frame
+ * body at its local origin, see ReferenceFrame) and adds it to the scene. The
+ * camera stays outside of it, in rendered coordinates.
+ * @param scene - Scene to add the world to
+ */
+export function createWorldRoot(scene: THREE.Scene): THREE.Group {
+  const world = new THREE.Group()
+  world.name = 'world'
+  scene.add(world)
+  return world
+}
+
+/**
+ * Moves the world so the focus object sits at the origin, shifting the camera
+ * by the same amount so the view does not change. Call after the bodies moved
+ * and before the camera update.
+ * @param world - World root (see createWorldRoot)
+ * @param focus - Object to center on (defaults to the tracked object)
+ */
+export function updateFloatingOrigin(world: THREE.Object3D, focus = getTrackedObject()) {
+  if (!focus) return
+  const shift = focus.getWorldPosition(new THREE.Vector3())
+  if (shift.length() < REBASE_DISTANCE) return
+  world.position.sub(shift)
+  world.updateMatrixWorld()
+  shiftTrackingCamera(shift.negate())
+}
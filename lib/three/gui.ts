@@ -1,15 +1,81 @@
 import { GUI } from 'lil-gui'
 import * as THREE from 'three'
 import { isMobile } from '../utils/mobile'
+import { formatUtcDate, parseUtcDate } from './ephemeris'
+import { TIME_RATE_PRESETS, type SimulationClock } from './simulationClock'
+import { SCALE_MODES, type ScaleMode } from './scaling'
+import { QUALITY_TIER_OPTIONS, type QualityTier } from './quality'
+import type { EffectSettings } from './effectStack'
+import { TRAIL_LENGTH_MIN_DAYS, TRAIL_LENGTH_MAX_DAYS, type TrailSettings } from './trails'
+import { CAMERA_MODE_OPTIONS, type CameraModeSettings } from './cameraModes'
 
-export function setupSolarSystemGUI(
-  planetSpread: number,
-  setPlanetSpread: (v: number) => void,
-  guiOptionsRef: React.MutableRefObject<{ orbitPaused: boolean; spinPaused: boolean }>,
-  focusTargets: { name: string; mesh: THREE.Object3D }[],
-  onFocus: (name: string, mesh: THREE.Object3D) => void,
-  onResetCamera: () => void,
-) {
+// --- CONSTANTS ---
+const MAGNIFICATION_MIN = 1 // True scale without magnification
+const MAGNIFICATION_MAX = 1000 // Beyond this the giant planets hit the radius cap
+const BLOOM_STRENGTH_MAX = 3 // Stronger bloom washes out the inner planets
+const EFFECT_INTENSITY_MAX = 2 // Corona and lens flare brightness range (1 = default look)
+const GRAIN_INTENSITY_MAX = 0.3 // Film grain amplitude range
+const SURFACE_LONGITUDE_MAX = 180 // Surface view longitude range (±)
+const SURFACE_LATITUDE_MAX = 90 // Surface view latitude range (±)
+
+const DATE_REFRESH_MS = 500 // Least time between refreshes of the "Jump To" date field
+
+// A body the camera can focus on; targets with a category are grouped in a subfolder
+export interface FocusTarget {
+  name: string
+  mesh: THREE.Object3D
+  category?: string
+}
+
+// A scene object (e.g. an asteroid belt) whose visibility can be toggled from the GUI;
+// toggles with a category are grouped in a subfolder
+export interface VisibilityToggle {
+  name: string
+  object: THREE.Object3D
+  category?: string
+}
+
+// Everything the GUI reads and drives, grouped by folder
+export interface SolarSystemGUIOptions {
+  // Top-level controls: planet spread, quality tier, spin, lighting, surfaces and reference frame
+  view: {
+    planetSpread: number
+    setPlanetSpread: (v: number) => void
+    quality: QualityTier
+    setQuality: (tier: QualityTier) => void
+    options: React.MutableRefObject<{ spinPaused: boolean; realisticLighting: boolean; alternateSurfaces: boolean; referenceFrame: string }>
+    onLightingChange: (lit: boolean) => void
+    onSurfaceChange: (alternate: boolean) => void
+    frameBodies: string[] // Bodies that can be fixed at the origin
+    onFrameChange: (name: string) => void
+  }
+  scale: {
+    options: React.MutableRefObject<{ mode: ScaleMode; magnification: number }>
+    onChange: () => void
+  }
+  time: SimulationClock
+  effects: {
+    settings: EffectSettings
+    onChange: () => void
+  }
+  trails: {
+    settings: TrailSettings
+    onChange: () => void
+  }
+  camera: {
+    settings: CameraModeSettings
+    onModeChange: () => void
+    onReset: () => void
+  }
+  focus: {
+    targets: FocusTarget[]
+    onFocus: (name: string, mesh: THREE.Object3D) => void
+  }
+  toggles?: VisibilityToggle[]
+}
+
+export function setupSolarSystemGUI(options: SolarSystemGUIOptions) {
+  const { view, scale, time: clock, effects, trails, camera, focus, toggles = [] } = options
   const gui = new GUI()
   gui.title('Solar System Controls')
   
@@ -18,9 +84,116 @@ export function setupSolarSystemGUI(
     gui.close()
   }
   
-  gui.add({ planetSpread }, 'planetSpread', 300, 1000, 1).onChange(setPlanetSpread)
-  gui.add(guiOptionsRef.current, 'orbitPaused').name('Pause Orbit').onChange((v: boolean) => { guiOptionsRef.current.orbitPaused = v })
-  const spinController = gui.add(guiOptionsRef.current, 'spinPaused').name('Pause Spin').onChange((v: boolean) => { guiOptionsRef.current.spinPaused = v })
+  gui.add({ planetSpread: view.planetSpread }, 'planetSpread', 300, 1000, 1).onChange(view.setPlanetSpread)
+  // Overrides the tier picked for the device class (rebuilds the scene)
+  gui.add({ quality: view.quality }, 'quality', QUALITY_TIER_OPTIONS).name('Quality').onChange(view.setQuality)
+  const spinController = gui.add(view.options.current, 'spinPaused').name('Pause Spin').onChange((v: boolean) => { view.options.current.spinPaused = v })
+  // Sun-lit materials with shadows, or the cheap unlit mode for low-end devices
+  gui.add(view.options.current, 'realisticLighting').name('Realistic Lighting').onChange(view.onLightingChange)
+  // Alternate looks from the material descriptors (e.g. Venus' cloud tops instead of its surface)
+  gui.add(view.options.current, 'alternateSurfaces').name('Alternate Surfaces').onChange(view.onSurfaceChange)
+  // Body fixed at the origin (e.g. Earth: the other planets trace epicycles and retrograde loops)
+  gui.add(view.options.current, 'referenceFrame', view.frameBodies).name('Reference Frame').onChange(view.onFrameChange)
+
+  // Add folder for the scaling mode (sizes and distances)
+  const scaleFolder = gui.addFolder('Scale')
+  if (isMobile()) {
+    scaleFolder.close()
+  }
+  scaleFolder.add(scale.options.current, 'mode', SCALE_MODES).name('Mode').onChange(scale.onChange)
+  scaleFolder.add(scale.options.current, 'magnification', MAGNIFICATION_MIN, MAGNIFICATION_MAX, 1)
+    .name('True Scale Size ×')
+    .onFinishChange(scale.onChange)
+
+  // Add folder for the simulation clock (play state, direction, rate and date)
+  const timeFolder = gui.addFolder('Time')
+  if (isMobile()) {
+    timeFolder.close()
+  }
+  // Proxy object so controllers read and write the shared clock
+  const timeOptions = {
+    get paused() { return clock.paused },
+    set paused(v: boolean) { if (v) clock.pause(); else clock.play() },
+    get reversed() { return clock.reversed },
+    set reversed(v: boolean) { clock.setReversed(v) },
+    get rate() { return clock.rate },
+    set rate(v: number) { clock.setRate(v) },
+    date: formatUtcDate(clock.time),
+  }
+  timeFolder.add(timeOptions, 'paused').name('Pause Time').listen()
+  timeFolder.add(timeOptions, 'reversed').name('Reverse Time').listen()
+  timeFolder.add(timeOptions, 'rate', TIME_RATE_PRESETS).name('Rate').listen()
+  const dateController = timeFolder.add(timeOptions, 'date').name('Jump To (UTC)').onFinishChange((v: string) => {
+    const time = parseUtcDate(v)
+    if (time !== null) clock.setTime(time)
+  })
+  timeFolder.add({
+    Today: () => {
+      clock.setTime(Date.now())
+      dateController.setValue(formatUtcDate(clock.time))
+    },
+  }, 'Today')
+  // Keep the date field on the clock's date (it runs, steps and jumps from other controls),
+  // throttled, and leave it alone while it is being edited
+  let lastDateRefresh = -Infinity
+  const refreshDate = () => {
+    const now = performance.now()
+    if (now - lastDateRefresh < DATE_REFRESH_MS) return
+    if (dateController.domElement.contains(document.activeElement)) return
+    lastDateRefresh = now
+    timeOptions.date = formatUtcDate(clock.time)
+    dateController.updateDisplay()
+  }
+  clock.on('change', refreshDate)
+  const dateRefreshTimer = window.setInterval(refreshDate, DATE_REFRESH_MS)
+
+  // Add folder for visual effects (applied live and saved for the next visit)
+  const effectsFolder = gui.addFolder('Effects')
+  if (isMobile()) {
+    effectsFolder.close()
+  }
+  effectsFolder.add(effects.settings, 'bloom').name('Sun Bloom')
+  effectsFolder.add(effects.settings, 'bloomStrength', 0, BLOOM_STRENGTH_MAX, 0.05).name('Bloom Strength')
+  effectsFolder.add(effects.settings, 'bloomRadius', 0, 1, 0.05).name('Bloom Radius')
+  effectsFolder.add(effects.settings, 'bloomThreshold', 0, 1, 0.01).name('Bloom Threshold')
+  effectsFolder.add(effects.settings, 'corona').name('Corona')
+  effectsFolder.add(effects.settings, 'coronaIntensity', 0, EFFECT_INTENSITY_MAX, 0.05).name('Corona Intensity')
+  effectsFolder.add(effects.settings, 'lensFlare').name('Lens Flare')
+  effectsFolder.add(effects.settings, 'lensFlareIntensity', 0, EFFECT_INTENSITY_MAX, 0.05).name('Flare Intensity')
+  effectsFolder.add(effects.settings, 'filmGrain').name('Film Grain')
+  effectsFolder.add(effects.settings, 'grainIntensity', 0, GRAIN_INTENSITY_MAX, 0.01).name('Grain Amount')
+  effectsFolder.add(effects.settings, 'vignette').name('Vignette')
+  effectsFolder.add(effects.settings, 'vignetteDarkness', 0, 1, 0.05).name('Vignette Darkness')
+  // Fires for every control in the folder
+  effectsFolder.onChange(effects.onChange)
+
+  // Add folder for orbit trails (path travelled in the reference frame)
+  const trailsFolder = gui.addFolder('Trails')
+  if (isMobile()) {
+    trailsFolder.close()
+  }
+  trailsFolder.add(trails.settings, 'enabled').name('Show Trails')
+  trailsFolder.add(trails.settings, 'lengthDays', TRAIL_LENGTH_MIN_DAYS, TRAIL_LENGTH_MAX_DAYS, 1).name('Length (days)')
+  trailsFolder.onChange(trails.onChange)
+
+  // Add folder for optional scene layers (belts, missions, cloud layers)
+  if (toggles.length > 0) {
+    const showFolder = gui.addFolder('Show')
+    if (isMobile()) {
+      showFolder.close()
+    }
+    const showCategoryFolders = new Map<string, GUI>()
+    toggles.forEach(({ name, object, category }) => {
+      let folder = showFolder
+      if (category) {
+        if (!showCategoryFolders.has(category)) {
+          showCategoryFolders.set(category, showFolder.addFolder(category))
+        }
+        folder = showCategoryFolders.get(category)!
+      }
+      folder.add(object, 'visible').name(name)
+    })
+  }
 
   // Add folder for camera controls
   const cameraFolder = gui.addFolder('Camera')
@@ -28,7 +201,13 @@ export function setupSolarSystemGUI(
   if (isMobile()) {
     cameraFolder.close()
   }
-  cameraFolder.add({ 'Reset Camera': onResetCamera }, 'Reset Camera')
+  cameraFolder.add({ 'Reset Camera': camera.onReset }, 'Reset Camera')
+  // Free-fly (WASD/QE, arrows or mouse drag to turn, Shift to boost, or a gamepad), chase and surface views;
+  // listens so focusing a body, which returns to orbit mode, shows up here
+  cameraFolder.add(camera.settings, 'mode', CAMERA_MODE_OPTIONS).name('Mode').listen().onChange(camera.onModeChange)
+  cameraFolder.add(camera.settings, 'body', focus.targets.map(t => t.name)).name('Chase/Surface Body').onChange(camera.onModeChange)
+  cameraFolder.add(camera.settings, 'latitude', -SURFACE_LATITUDE_MAX, SURFACE_LATITUDE_MAX, 1).name('Surface Latitude').onChange(camera.onModeChange)
+  cameraFolder.add(camera.settings, 'longitude', -SURFACE_LONGITUDE_MAX, SURFACE_LONGITUDE_MAX, 1).name('Surface Longitude').onChange(camera.onModeChange)
 
   // Add folder for focus controls
   const focusFolder = gui.addFolder('Focus On')
@@ -36,9 +215,23 @@ export function setupSolarSystemGUI(
   if (isMobile()) {
     focusFolder.close()
   }
-  focusTargets.forEach(({ name, mesh }) => {
-    focusFolder.add({ [name]: () => onFocus(name, mesh) }, name)
+  // Category subfolders (e.g. Moons) start closed to keep the list short
+  const categoryFolders = new Map<string, GUI>()
+  focus.targets.forEach(({ name, mesh, category }) => {
+    let folder = focusFolder
+    if (category) {
+      if (!categoryFolders.has(category)) {
+        categoryFolders.set(category, focusFolder.addFolder(category).close())
+      }
+      folder = categoryFolders.get(category)!
+    }
+    folder.add({ [name]: () => focus.onFocus(name, mesh) }, name)
   })
 
-  return { cleanup: () => gui.destroy(), spinController }
+  const cleanup = () => {
+    clock.off('change', refreshDate)
+    window.clearInterval(dateRefreshTimer)
+    gui.destroy()
+  }
+  return { cleanup, spinController }
 } 
\ No newline at end of file
@@ -1,27 +1,66 @@
 import type { Scene, Camera, Object3D } from 'three'
 import { CSS2DRenderer, CSS2DObject } from 'three/examples/jsm/renderers/CSS2DRenderer.js'
-import { Vector3 } from 'three'
+import { Vector2, Vector3, MathUtils } from 'three'
+import { getBodySceneRadius } from './solarSystem'
+
+// Kind of labelled object, set as userData.labelCategory (see addLabelsForMeshes)
+export type LabelCategory = 'planet' | 'dwarfPlanet' | 'comet' | 'moon' | 'spacecraft'
+
+interface LabelCategoryStyle {
+  style: Partial<CSSStyleDeclaration>
+  fadeRadii: number // Camera distance, in body radii, at which the label has faded out (Infinity: never fades)
+}
 
 interface LabelEntry {
   mesh: Object3D
   label: CSS2DObject
   offset: Vector3
+  category: LabelCategory
+  details: HTMLDivElement
+  hovered: boolean
+  radius: number // Body scene radius, the decluttering priority
+  fade: number // Opacity from the camera distance
+  opacity: number // Opacity last applied to the element
+  screen: Vector2 // Label center in pixels
+  size: Vector2 // Element size in pixels (measured once displayed)
 }
 
 // --- CONSTANTS ---
 export const LABEL_FONT_SIZE = '10px'
 export const LABEL_PADDING = '1px 3px'
+export const LABEL_CATEGORY_STYLES: Record<LabelCategory, LabelCategoryStyle> = {
+  planet: { style: { fontSize: '12px', fontWeight: 'bold' }, fadeRadii: Infinity },
+  dwarfPlanet: { style: { color: '#e0d2b4' }, fadeRadii: 20000 },
+  comet: { style: { color: '#a8dcff' }, fadeRadii: 20000 },
+  moon: { style: { fontSize: '9px', color: '#cccccc', backgroundColor: 'rgba(0, 0, 0, 0.3)' }, fadeRadii: 500 },
+  spacecraft: { style: { color: '#a0ffa0', fontStyle: 'italic', border: '1px solid rgba(160, 255, 160, 0.5)' }, fadeRadii: Infinity },
+}
+const LABEL_FADE_START = 0.6 // Labels start fading at this fraction of their category's fade distance
+const LABEL_MIN_OPACITY = 0.05 // Fainter labels are hidden, and no longer clickable
+const LABEL_COLLISION_MARGIN_PX = 2 // Space kept free around each label when decluttering
+const LABEL_FADE_TRANSITION = 'opacity 0.25s' // Labels pushed out by (or freed from) a collision fade rather than pop
+
+// Whether an object and all of its ancestors are visible
+export function isShown(object: Object3D): boolean {
+  for (let o: Object3D | null = object; o; o = o.parent) {
+    if (!o.visible) return false
+  }
+  return true
+}
 
 export class LabelManager {
   private renderer: CSS2DRenderer
   private entries: LabelEntry[] = []
   private tmpPos = new Vector3()
   private containerElement: HTMLElement
+  private selectHandler: ((mesh: Object3D) => void) | null = null
+  private detailsProvider: ((mesh: Object3D) => string | null) | null = null
 
   constructor(containerElement: HTMLElement) {
     this.containerElement = containerElement
     this.renderer = new CSS2DRenderer()
     this.renderer.setSize(containerElement.clientWidth, containerElement.clientHeight)
+    // The layer lets events through to the canvas; only the labels themselves are interactive
     Object.assign(this.renderer.domElement.style, {
       position: 'absolute',
       top: '0',
@@ -31,31 +70,74 @@ export class LabelManager {
     this.containerElement.appendChild(this.renderer.domElement)
   }
 
+  /**
+   * Sets what happens when a label is clicked (e.g. focusing its body).
+   * @param handler - Called with the labelled object
+   */
+  setSelectHandler(handler: (mesh: Object3D) => void) {
+    this.selectHandler = handler
+  }
+
+  /**
+   * Sets the source of the secondary line shown while a label is hovered,
+   * refreshed every frame (e.g. distance from the Sun and current speed).
+   * @param provider - Returns the line for a labelled object, or null for none
+   */
+  setDetailsProvider(provider: (mesh: Object3D) => string | null) {
+    this.detailsProvider = provider
+  }
+
   add(
     scene: Scene,
     mesh: Object3D,
     text: string,
     offsetY = 0,
-    customStyles?: Partial<CSSStyleDeclaration>
+    customStyles?: Partial<CSSStyleDeclaration>,
+    category: LabelCategory = 'planet'
   ): CSS2DObject {
     const div = document.createElement('div')
     const defaultStyles: Partial<CSSStyleDeclaration> = {
       color: '#fff',
-      fontSize: '14px',
+      fontSize: LABEL_FONT_SIZE,
       fontFamily: 'Arial, sans-serif',
       textShadow: '1px 1px 2px black',
-      padding: '2px 5px',
+      padding: LABEL_PADDING,
       borderRadius: '3px',
       backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      textAlign: 'center',
+      whiteSpace: 'nowrap',
+      cursor: 'pointer',
+      pointerEvents: 'auto',
+      transition: LABEL_FADE_TRANSITION,
     }
-    Object.assign(div.style, defaultStyles, customStyles)
-    div.textContent = text
+    Object.assign(div.style, defaultStyles, LABEL_CATEGORY_STYLES[category].style, customStyles)
+    div.append(text)
+
+    const details = document.createElement('div')
+    Object.assign(details.style, { display: 'none', fontSize: '0.85em', fontWeight: 'normal', opacity: '0.8' })
+    div.appendChild(details)
 
     const label = new CSS2DObject(div)
     scene.add(label)
 
     const offset = new Vector3(0, offsetY, 0)
-    this.entries.push({ mesh, label, offset })
+    const entry: LabelEntry = {
+      mesh,
+      label,
+      offset,
+      category,
+      details,
+      hovered: false,
+      radius: 0,
+      fade: 1,
+      opacity: 1,
+      screen: new Vector2(),
+      size: new Vector2(),
+    }
+    div.addEventListener('click', () => this.selectHandler?.(mesh))
+    div.addEventListener('mouseenter', () => this.setHovered(entry, true))
+    div.addEventListener('mouseleave', () => this.setHovered(entry, false))
+    this.entries.push(entry)
     return label
   }
 
@@ -91,10 +173,43 @@ export class LabelManager {
     this.renderer.setSize(width, height)
   }
 
+  /**
+   * Positions the labels and declutters them: labels fade out with the camera
+   * distance (per category), and where labels overlap on screen the one of
+   * the bigger body wins (a hovered label always stays).
+   * @param scene - Scene holding the labels
+   * @param camera - Rendering camera
+   */
   render(scene: Scene, camera: Camera) {
-    for (const { mesh, label, offset } of this.entries) {
+    const { width, height } = this.renderer.getSize()
+    const candidates: LabelEntry[] = []
+    for (const entry of this.entries) {
+      const { mesh, label, offset } = entry
       mesh.getWorldPosition(this.tmpPos)
       label.position.copy(this.tmpPos).add(offset)
+      entry.radius = getBodySceneRadius(mesh)
+      entry.fade = this.getDistanceFade(entry, camera.position.distanceTo(this.tmpPos))
+      const ndc = this.tmpPos.copy(label.position).project(camera)
+      // Hide labels of hidden objects (e.g. a spacecraft before launch or a toggled-off mission),
+      // labels behind the camera and labels faded out by distance
+      label.visible = isShown(mesh) && ndc.z < 1 && entry.fade > LABEL_MIN_OPACITY
+      if (!label.visible) {
+        if (entry.hovered) this.setHovered(entry, false)
+        continue
+      }
+      entry.screen.set(((ndc.x + 1) / 2) * width, ((1 - ndc.y) / 2) * height)
+      candidates.push(entry)
+    }
+
+    // Greedy placement, biggest bodies first
+    candidates.sort((a, b) => Number(b.hovered) - Number(a.hovered) || b.radius - a.radius)
+    const placed: LabelEntry[] = []
+    for (const entry of candidates) {
+      this.measure(entry)
+      const overlaps = !entry.hovered && placed.some(other => this.overlaps(entry, other))
+      if (!overlaps) placed.push(entry)
+      this.setOpacity(entry, overlaps ? 0 : entry.fade)
+      if (entry.hovered) this.updateDetails(entry)
     }
     this.renderer.render(scene, camera)
   }
@@ -108,6 +223,7 @@ export class LabelManager {
 
   /**
    * Add labels for an array of meshes that have userData.labelOffset and userData.labelText
+   * (styled by userData.labelCategory, planet by default)
    * Returns an array of created CSS2DObjects
    */
   addLabelsForMeshes(
@@ -117,7 +233,7 @@ export class LabelManager {
   ): CSS2DObject[] {
     const createdLabels: CSS2DObject[] = []
     meshes.forEach(mesh => {
-      const { labelOffset, labelText } = (mesh.userData as { labelOffset?: number; labelText?: string })
+      const { labelOffset, labelText, labelCategory } = (mesh.userData as { labelOffset?: number; labelText?: string; labelCategory?: LabelCategory })
       const offsetY = labelOffset
       const text = labelText
       if (offsetY != null && text) {
@@ -126,11 +242,65 @@ export class LabelManager {
           mesh,
           text,
           offsetY * 3.7, // raise label higher above mesh
-          customStyles ?? { fontSize: LABEL_FONT_SIZE, padding: LABEL_PADDING }
+          customStyles,
+          labelCategory
         )
         createdLabels.push(label)
       }
     })
     return createdLabels
   }
-} 
\ No newline at end of file
+
+  /**
+   * Label opacity at a camera distance: full up to LABEL_FADE_START of the
+   * category's fade distance, then fading out to 0.
+   * @param entry - Label
+   * @param distance - Camera distance to the body
+   */
+  private getDistanceFade(entry: LabelEntry, distance: number): number {
+    const fadeRadii = LABEL_CATEGORY_STYLES[entry.category].fadeRadii
+    if (!Number.isFinite(fadeRadii)) return 1
+    return 1 - MathUtils.smoothstep(distance / entry.radius, fadeRadii * LABEL_FADE_START, fadeRadii)
+  }
+
+  // Caches the element size once it is displayed (0 × 0 until then: it collides with nothing)
+  private measure(entry: LabelEntry) {
+    if (entry.size.x > 0) return
+    const element = entry.label.element
+    entry.size.set(element.offsetWidth, element.offsetHeight)
+  }
+
+  // Whether two labels' screen rectangles (centered on their positions) overlap
+  private overlaps(a: LabelEntry, b: LabelEntry): boolean {
+    const dx = Math.abs(a.screen.x - b.screen.x)
+    const dy = Math.abs(a.screen.y - b.screen.y)
+    return (
+      dx < (a.size.x + b.size.x) / 2 + LABEL_COLLISION_MARGIN_PX &&
+      dy < (a.size.y + b.size.y) / 2 + LABEL_COLLISION_MARGIN_PX
+    )
+  }
+
+  // Applies an opacity, touching the DOM only on change; invisible labels let clicks through
+  private setOpacity(entry: LabelEntry, opacity: number) {
+    const value = opacity > LABEL_MIN_OPACITY ? opacity : 0
+    if (Math.abs(value - entry.opacity) < 0.01) return
+    entry.opacity = value
+    const style = entry.label.element.style
+    style.opacity = String(value)
+    style.pointerEvents = value > 0 ? 'auto' : 'none'
+  }
+
+  // Shows or hides the secondary line; the label is measured again for its new size
+  private setHovered(entry: LabelEntry, hovered: boolean) {
+    entry.hovered = hovered
+    entry.details.style.display = hovered ? 'block' : 'none'
+    if (hovered) this.updateDetails(entry)
+    entry.size.set(0, 0)
+  }
+
+  private updateDetails(entry: LabelEntry) {
+    const text = this.detailsProvider?.(entry.mesh) ?? ''
+    if (entry.details.textContent !== text) entry.details.textContent = text
+    entry.details.style.display = entry.hovered && text ? 'block' : 'none'
+  }
+}
@@ -0,0 +1,279 @@
+// Sun lighting: point light with shadows, lit/unlit body materials, surface maps and night sides
+import * as THREE from 'three'
+import { SCENE_EXTENT } from './setupScene'
+import type { BodyMaterialDescriptor, BodyTextures } from './textureLoader'
+import type { TextureSlot } from './materialRegistry'
+
+// =========================
+// Lighting constants
+// =========================
+const SUN_LIGHT_COLOR = 0xffffff // Sunlight is white
+const SUN_LIGHT_INTENSITY = Math.PI // Full albedo at the sub-solar point (Lambert diffuse divides by π)
+const SUN_LIGHT_DECAY = 0 // No falloff: scene distances are compressed, inverse-square would black out the outer planets
+const AMBIENT_LIGHT_INTENSITY = 0.05 * Math.PI // Faint fill (5% of sunlight) so night sides stay readable
+const SHADOW_MAP_SIZE = 2048 // Default resolution of each face of the point light shadow cube
+const SHADOW_BIAS = -0.0005 // Avoids shadow acne on the sphere surfaces
+const SHADOW_NEAR = 0.5 // Shadow camera near plane (the light sits inside the Sun, which casts no shadow)
+const BODY_ROUGHNESS = 1 // Planets are matte: no specular highlight
+const BODY_METALNESS = 0
+const NIGHT_LIGHTS_INTENSITY = 1.5 // Brightness of city lights on the night side
+const NIGHT_TWILIGHT_WIDTH = 0.15 // Width (cosine of the sun angle) of the day/night blend at the terminator
+const DEFAULT_NORMAL_SCALE = 1 // Relief strength of normal maps unless the data sets one
+const GLOSSY_ROUGHNESS = 0.35 // Roughness where a specular map is white (e.g. Earth's oceans)
+
+// =========================
+// Type Definitions
+// =========================
+
+// Material options shared by the lit and unlit variants of a body material
+export interface BodyMaterialParams {
+  map?: THREE.Texture
+  alphaMap?: THREE.Texture
+  color?: THREE.ColorRepresentation
+  wireframe?: boolean
+  transparent?: boolean
+  opacity?: number
+  depthWrite?: boolean
+  side?: THREE.Side
+  alphaTest?: number
+}
+
+// =========================
+// Lights
+// =========================
+
+/**
+ * Creates the Sun's point light, casting shadows (e.g. Saturn's rings on the planet).
+ * Add it as a child of the Sun mesh so it follows the Sun.
+ * @param shadowMapSize - Resolution of each cube face; the shadow renders the scene six times a frame
+ */
+export function createSunLight(shadowMapSize = SHADOW_MAP_SIZE): THREE.PointLight {
+  const light = new THREE.PointLight(SUN_LIGHT_COLOR, SUN_LIGHT_INTENSITY, 0, SUN_LIGHT_DECAY)
+  light.name = 'Sun_light'
+  light.castShadow = true
+  light.shadow.mapSize.set(shadowMapSize, shadowMapSize)
+  light.shadow.bias = SHADOW_BIAS
+  light.shadow.camera.near = SHADOW_NEAR
+  light.shadow.camera.far = SCENE_EXTENT
+  return light
+}
+
+/**
+ * Creates the faint ambient fill light.
+ */
+export function createAmbientLight(): THREE.AmbientLight {
+  return new THREE.AmbientLight(SUN_LIGHT_COLOR, AMBIENT_LIGHT_INTENSITY)
+}
+
+// =========================
+// Materials
+// =========================
+
+/**
+ * Creates a lit (standard) material for a body. The unlit (basic) variant used
+ * by the cheap lighting mode is kept in `userData.unlitMaterial`.
+ * @param params - Texture/color options applied to both variants
+ */
+export function createBodyMaterial(params: BodyMaterialParams): THREE.MeshStandardMaterial {
+  const material = new THREE.MeshStandardMaterial({ ...params, roughness: BODY_ROUGHNESS, metalness: BODY_METALNESS })
+  material.userData.unlitMaterial = new THREE.MeshBasicMaterial(params)
+  return material
+}
+
+/**
+ * Lets a body (and its child meshes, e.g. rings) cast and receive shadows.
+ * Transparent layers only take part with an alpha test (ring gaps); clouds and
+ * atmosphere shells would otherwise shade the whole surface.
+ */
+export function enableShadows(object: THREE.Object3D) {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh && (!child.material.transparent || child.material.alphaTest > 0)) {
+      child.castShadow = true
+      child.receiveShadow = true
+    }
+  })
+}
+
+/**
+ * Switches bodies between lit and unlit materials. Only meshes whose material
+ * was created by createBodyMaterial are affected.
+ * @param objects - Root objects to traverse
+ * @param lit - True for sun-lit materials, false for the cheap unlit mode
+ */
+export function setLightingMode(objects: THREE.Object3D[], lit: boolean) {
+  objects.forEach(root => root.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return
+    if (!child.userData.litMaterial && child.material?.userData?.unlitMaterial) {
+      child.userData.litMaterial = child.material
+    }
+    const litMaterial = child.userData.litMaterial as THREE.Material | undefined
+    if (!litMaterial) return
+    child.material = lit ? litMaterial : litMaterial.userData.unlitMaterial
+  }))
+}
+
+/**
+ * Applies the optional surface maps and material options of a body to its lit
+ * material: relief (normal map), gloss (specular map), emission and night-side
+ * emission. A night map takes the emissive slot, so it replaces an emissive map.
+ * An alternate diffuse map is stored for setAlternateSurfaces.
+ * @param mesh - Body mesh with a material from createBodyMaterial
+ * @param textures - Textures loaded from the body's material descriptor
+ * @param sun - Sun object (for night-side emission)
+ * @param options - Material options from the descriptor (normal scale, roughness, metalness)
+ */
+export function applySurfaceMaps(mesh: THREE.Mesh, textures: BodyTextures, sun: THREE.Object3D, options: BodyMaterialDescriptor = {}) {
+  const material = mesh.material as THREE.MeshStandardMaterial
+  material.roughness = options.roughness ?? BODY_ROUGHNESS
+  material.metalness = options.metalness ?? BODY_METALNESS
+  if (textures.normalMap) {
+    material.normalMap = textures.normalMap
+    material.normalScale.setScalar(options.normal_scale ?? DEFAULT_NORMAL_SCALE)
+  }
+  if (textures.specularMap) {
+    addSpecularMap(material, textures.specularMap)
+  }
+  if (textures.emissiveMap) {
+    material.emissive.set(0xffffff)
+    material.emissiveMap = textures.emissiveMap
+  }
+  if (textures.nightMap) {
+    addNightLights(mesh, textures.nightMap, sun)
+  }
+  if (textures.alternateMap) {
+    material.userData.baseMap = material.map
+    material.userData.alternateMap = textures.alternateMap
+  }
+}
+
+/**
+ * Stops a body material from sampling a texture that failed to load. Without
+ * its diffuse map the body falls back to the untextured wireframe look.
+ * @param mesh - Body mesh with a material from createBodyMaterial
+ * @param slot - Texture slot that failed
+ * @param fallbackColor - Wireframe color for a missing diffuse map
+ */
+export function removeSurfaceMap(mesh: THREE.Mesh, slot: TextureSlot, fallbackColor: THREE.Color) {
+  const litMaterial = (mesh.userData.litMaterial ?? mesh.material) as THREE.MeshStandardMaterial
+  const unlitMaterial = litMaterial.userData.unlitMaterial as THREE.MeshBasicMaterial | undefined
+  const variants = unlitMaterial ? [litMaterial, unlitMaterial] : [litMaterial]
+  if (slot === 'map') {
+    litMaterial.userData.baseMap = null
+    variants.forEach(material => {
+      material.map = null
+      material.color.copy(fallbackColor)
+      material.wireframe = true
+    })
+  } else if (slot === 'alternateMap') {
+    delete litMaterial.userData.alternateMap
+    variants.forEach(material => { material.map = litMaterial.userData.baseMap ?? null })
+  } else if (slot === 'normalMap') {
+    litMaterial.normalMap = null
+  } else if (slot === 'specularMap') {
+    litMaterial.roughnessMap = null
+  } else if (slot === 'emissiveMap' || slot === 'nightMap') {
+    litMaterial.emissiveMap = null
+    litMaterial.emissive.set(0x000000)
+  }
+  variants.forEach(material => { material.needsUpdate = true })
+}
+
+/**
+ * Switches bodies with an alternate diffuse map (e.g. Venus' cloud tops instead
+ * of its radar surface) between their two looks, in both lighting modes.
+ * @param objects - Root objects to traverse
+ * @param alternate - True for the alternate maps, false for the default ones
+ */
+export function setAlternateSurfaces(objects: THREE.Object3D[], alternate: boolean) {
+  objects.forEach(root => root.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return
+    const litMaterial = (child.userData.litMaterial ?? child.material) as THREE.MeshStandardMaterial
+    const { baseMap, alternateMap, unlitMaterial } = litMaterial.userData ?? {}
+    if (!alternateMap) return
+    const map = alternate ? alternateMap : baseMap
+    litMaterial.map = map
+    if (unlitMaterial) unlitMaterial.map = map
+  }))
+}
+
+/**
+ * Adds a shader patch to a material, keeping the patches added before it
+ * (e.g. gloss and night lights on the same body).
+ * @param material - Material to patch
+ * @param key - Patch name, part of the program cache key
+ * @param patch - Edits the shader before it compiles
+ */
+function patchShader(material: THREE.Material, key: string, patch: (shader: THREE.WebGLProgramParametersWithUniforms) => void) {
+  const previous = material.onBeforeCompile.bind(material)
+  const keys: string[] = [...(material.userData.shaderPatches ?? []), key]
+  material.userData.shaderPatches = keys
+  material.onBeforeCompile = (shader, renderer) => {
+    previous(shader, renderer)
+    patch(shader)
+  }
+  // Patched programs differ from the stock one (and from each other)
+  material.customProgramCacheKey = () => keys.join(',')
+}
+
+/**
+ * Makes the bright areas of a specular map glossy. The map goes in the roughness
+ * slot, with the shader reading it as gloss instead of roughness.
+ * @param material - Lit body material
+ * @param specularMap - Grayscale specular map
+ */
+function addSpecularMap(material: THREE.MeshStandardMaterial, specularMap: THREE.Texture) {
+  material.roughnessMap = specularMap
+  patchShader(material, 'specular', shader => {
+    shader.fragmentShader = shader.fragmentShader.replace(
+      '#include <roughnessmap_fragment>',
+      `float roughnessFactor = roughness;
+      #ifdef USE_ROUGHNESSMAP
+        roughnessFactor = mix(roughness, ${GLOSSY_ROUGHNESS.toFixed(3)}, texture2D(roughnessMap, vRoughnessMapUv).g);
+      #endif`
+    )
+  })
+}
+
+/**
+ * Adds city lights to a body's night side: the texture is used as emission,
+ * faded out where the surface faces the Sun.
+ * @param mesh - Body mesh with a material from createBodyMaterial
+ * @param nightTexture - Night lights texture
+ * @param sun - Sun object (its world position is the light direction)
+ */
+export function addNightLights(mesh: THREE.Mesh, nightTexture: THREE.Texture, sun: THREE.Object3D) {
+  const material = mesh.material as THREE.MeshStandardMaterial
+  material.emissive.set(0xffffff)
+  material.emissiveMap = nightTexture
+  material.emissiveIntensity = NIGHT_LIGHTS_INTENSITY
+
+  const sunViewPosition = bindSunViewPosition(mesh, sun)
+  patchShader(material, 'night', shader => {
+    shader.uniforms.uSunViewPosition = sunViewPosition
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform vec3 uSunViewPosition;')
+      .replace(
+        '#include <emissivemap_fragment>',
+        `#include <emissivemap_fragment>
+        // Fade emission across the terminator: full on the night side, none on the day side
+        float sunFacing = dot(normal, normalize(uSunViewPosition + vViewPosition));
+        totalEmissiveRadiance *= 1.0 - smoothstep(${(-NIGHT_TWILIGHT_WIDTH).toFixed(3)}, ${NIGHT_TWILIGHT_WIDTH.toFixed(3)}, sunFacing);`
+      )
+  })
+}
+
+/**
+ * Keeps a uniform with the Sun's view-space position up to date while the mesh
+ * renders, for shaders that shade by the direction to the Sun.
+ * @param mesh - Mesh whose material uses the uniform
+ * @param sun - Sun object
+ * @returns The uniform to plug into the material
+ */
+export function bindSunViewPosition(mesh: THREE.Mesh, sun: THREE.Object3D): { value: THREE.Vector3 } {
+  const uniform = { value: new THREE.Vector3() }
+  // Shaders work in view space, so the position is refreshed per camera
+  mesh.onBeforeRender = (_renderer, _scene, camera) => {
+    sun.getWorldPosition(uniform.value).applyMatrix4(camera.matrixWorldInverse)
+  }
+  return uniform
+}
@@ -0,0 +1,121 @@
+// Registry of body surface materials declared in solar-params.json: textures are
+// loaded lazily per body and disposed once no scene object uses the body any more
+import type * as THREE from 'three'
+import { loadTextureFile, type BodyMaterialDescriptor, type BodyTextures } from './textureLoader'
+
+// =========================
+// Type Definitions
+// =========================
+
+// A texture slot of BodyTextures
+export type TextureSlot = keyof BodyTextures
+
+// Called when a body texture fails to load (the slot should no longer be sampled)
+export type MissingTextureHandler = (slot: TextureSlot) => void
+
+// Textures of one body in use, with the number of objects using them
+interface RegistryEntry {
+  textures: BodyTextures
+  refCount: number
+  missing: TextureSlot[]
+  onMissing: MissingTextureHandler[]
+}
+
+// Descriptor key, texture slot and whether the texture holds color (sRGB) data
+const TEXTURE_SLOTS: [keyof BodyMaterialDescriptor, TextureSlot, boolean][] = [
+  ['map', 'map', true],
+  ['normal_map', 'normalMap', false],
+  ['specular_map', 'specularMap', false],
+  ['emissive_map', 'emissiveMap', true],
+  ['night_map', 'nightMap', true],
+  ['alternate_map', 'alternateMap', true],
+  ['ring_map', 'ringMap', true],
+]
+
+// =========================
+// Registry
+// =========================
+
+export class MaterialRegistry {
+  private descriptors = new Map<string, BodyMaterialDescriptor>()
+  private entries = new Map<string, RegistryEntry>()
+
+  /**
+   * Declares the material of a body. Nothing is loaded until the body is acquired.
+   * @param id - Body id (its name)
+   * @param descriptor - Material descriptor (none for untextured bodies)
+   */
+  register(id: string, descriptor?: BodyMaterialDescriptor) {
+    if (descriptor) {
+      this.descriptors.set(id, descriptor)
+    } else {
+      this.descriptors.delete(id)
+    }
+  }
+
+  /**
+   * Material descriptor of a body (material options such as roughness).
+   * @param id - Body id
+   */
+  getDescriptor(id: string): BodyMaterialDescriptor | undefined {
+    return this.descriptors.get(id)
+  }
+
+  /**
+   * Textures of a body, loaded on first use. Every acquire must be matched by a release.
+   * @param id - Body id
+   */
+  acquire(id: string): BodyTextures {
+    if (typeof window === 'undefined') return {}
+    let entry = this.entries.get(id)
+    if (!entry) {
+      entry = this.load(id)
+      this.entries.set(id, entry)
+    }
+    entry.refCount++
+    return entry.textures
+  }
+
+  /**
+   * Calls a handler for each texture of an acquired body that fails to load,
+   * including failures before this call.
+   * @param id - Body id
+   * @param handler - Called with the slot of the missing texture
+   */
+  onMissing(id: string, handler: MissingTextureHandler) {
+    const entry = this.entries.get(id)
+    if (!entry) return
+    entry.missing.forEach(handler)
+    entry.onMissing.push(handler)
+  }
+
+  /**
+   * Releases a body acquired before; its textures are disposed when it is no longer used.
+   * @param id - Body id
+   */
+  release(id: string) {
+    const entry = this.entries.get(id)
+    if (!entry || --entry.refCount > 0) return
+    Object.values(entry.textures).forEach((texture: THREE.Texture) => texture.dispose())
+    this.entries.delete(id)
+  }
+
+  // Starts loading every texture of a body's descriptor
+  private load(id: string): RegistryEntry {
+    const entry: RegistryEntry = { textures: {}, refCount: 0, missing: [], onMissing: [] }
+    const descriptor = this.descriptors.get(id)
+    TEXTURE_SLOTS.forEach(([key, slot, isColor]) => {
+      const path = descriptor?.[key]
+      if (typeof path !== 'string') return
+      // Diffuse maps are critical: the first frame waits for them instead of letting them pop in
+      entry.textures[slot] = loadTextureFile(path, isColor, () => {
+        entry.missing.push(slot)
+        entry.onMissing.forEach(handler => handler(slot))
+      }, slot === 'map')
+    })
+    return entry
+  }
+}
+
+// Shared by all scenes, so rebuilding the scene reuses textures still in use
+export const materialRegistry = new MaterialRegistry()
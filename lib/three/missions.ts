@@ -0,0 +1,155 @@
+// Spacecraft mission replays: timestamped heliocentric trajectories drawn as trails with a moving marker
+import * as THREE from 'three'
+import { toScenePosition, type DistanceScale } from './orbits'
+import { getDaysSinceJ2000, parseUtcDate } from './ephemeris'
+
+// =========================
+// Mission constants
+// =========================
+const AU_MILLION_KM = 149.5978707 // One astronomical unit in million km
+const SPACECRAFT_SIZE = 0.15 // Scene radius of the spacecraft marker
+const TRAIL_OPACITY = 0.8 // Opacity of the flown part of the trajectory
+const KM_PER_MILLION_KM = 1e6 // Trajectory positions are in million km
+const SECONDS_PER_DAY = 86400 // Waypoint times are in days
+
+// =========================
+// Type Definitions
+// =========================
+
+// One trajectory sample: UTC date and heliocentric ecliptic J2000 position (x, y, z) in AU
+export interface MissionWaypoint {
+  date: string
+  position_au: number[]
+}
+
+// A spacecraft mission as stored in missions.json (waypoints in chronological order)
+export interface Mission {
+  name: string
+  color: string
+  unusual_facts?: string[]
+  trajectory: MissionWaypoint[]
+}
+
+// Scene objects of one mission; the group lets the GUI show or hide the whole mission
+export interface MissionObjects {
+  group: THREE.Group
+  trail: THREE.Line
+  marker: THREE.Mesh
+  // Waypoint times (days since J2000) and positions (million km, Three.js axes)
+  days: number[]
+  positionsMkm: THREE.Vector3[]
+}
+
+// =========================
+// Mission creation & updates
+// =========================
+
+// Converts an ecliptic position in AU to million km in Three.js axes (Y = ecliptic north)
+function toPositionMkm([x, y, z]: number[]): THREE.Vector3 {
+  return new THREE.Vector3(x, z, -y).multiplyScalar(AU_MILLION_KM)
+}
+
+/**
+ * Creates the trail and marker for a mission. The trail holds one vertex per
+ * waypoint plus one for the spacecraft, and only the flown part is drawn.
+ * @param mission - Mission data
+ */
+export function createMissionObjects(mission: Mission): MissionObjects {
+  const days = mission.trajectory.map(w => getDaysSinceJ2000(parseUtcDate(w.date) ?? 0))
+  const positionsMkm = mission.trajectory.map(w => toPositionMkm(w.position_au))
+
+  const trailGeometry = new THREE.BufferGeometry()
+  trailGeometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array((positionsMkm.length + 1) * 3), 3))
+  const trailMaterial = new THREE.LineBasicMaterial({ color: mission.color, opacity: TRAIL_OPACITY, transparent: true })
+  const trail = new THREE.Line(trailGeometry, trailMaterial)
+  trail.name = `${mission.name}_trail`
+  // The trail is rewritten every frame
+  trail.frustumCulled = false
+
+  const marker = new THREE.Mesh(
+    new THREE.OctahedronGeometry(SPACECRAFT_SIZE),
+    new THREE.MeshBasicMaterial({ color: mission.color })
+  )
+  marker.name = mission.name
+  // Tag for CSS2D label (handled externally)
+  marker.userData.labelOffset = SPACECRAFT_SIZE * 1.2
+  marker.userData.labelText = mission.name
+  marker.userData.labelCategory = 'spacecraft'
+
+  const group = new THREE.Group()
+  group.name = `${mission.name}_mission`
+  group.add(trail, marker)
+  return { group, trail, marker, days, positionsMkm }
+}
+
+/**
+ * Finds the spacecraft on its trajectory at a date (linear between waypoints,
+ * held at the last waypoint after the mission).
+ * @param objects - Objects created by createMissionObjects
+ * @param daysSinceJ2000 - Simulation date, not before launch
+ * @param target - Vector receiving the position (million km)
+ * @returns Index of the last waypoint at or before the date
+ */
+function locateSpacecraft(objects: MissionObjects, daysSinceJ2000: number, target: THREE.Vector3): number {
+  const { days, positionsMkm } = objects
+  const last = days.length - 1
+  let index = 0
+  while (index < last && days[index + 1] <= daysSinceJ2000) index++
+  if (index === last) {
+    target.copy(positionsMkm[last])
+  } else {
+    const f = (daysSinceJ2000 - days[index]) / (days[index + 1] - days[index])
+    target.lerpVectors(positionsMkm[index], positionsMkm[index + 1], f)
+  }
+  return index
+}
+
+/**
+ * Heliocentric position and speed of the spacecraft at a date; the speed is
+ * the average over the current waypoint interval.
+ * @param objects - Objects created by createMissionObjects
+ * @param daysSinceJ2000 - Simulation date
+ * @returns Position (million km) and speed (km/s), or null outside the mission
+ */
+export function getMissionState(objects: MissionObjects, daysSinceJ2000: number): { positionMkm: THREE.Vector3; speedKms: number } | null {
+  const { days, positionsMkm } = objects
+  if (daysSinceJ2000 < days[0] || daysSinceJ2000 > days[days.length - 1]) return null
+  const positionMkm = new THREE.Vector3()
+  const index = Math.min(locateSpacecraft(objects, daysSinceJ2000, positionMkm), days.length - 2)
+  if (index < 0) return { positionMkm, speedKms: 0 }
+  const distanceKm = positionsMkm[index].distanceTo(positionsMkm[index + 1]) * KM_PER_MILLION_KM
+  const durationSec = (days[index + 1] - days[index]) * SECONDS_PER_DAY
+  return { positionMkm, speedKms: durationSec > 0 ? distanceKm / durationSec : 0 }
+}
+
+/**
+ * Moves the spacecraft along its trajectory (linear between waypoints) and
+ * draws the trail up to it. Before launch nothing is shown; after the last
+ * waypoint the marker is hidden and the full trail stays as history.
+ * @param objects - Objects created by createMissionObjects
+ * @param daysSinceJ2000 - Simulation date
+ * @param distanceScale - Heliocentric distance → scene distance mapping
+ */
+export function updateMission(objects: MissionObjects, daysSinceJ2000: number, distanceScale: DistanceScale) {
+  const { trail, marker, days, positionsMkm } = objects
+  const last = days.length - 1
+  const started = daysSinceJ2000 >= days[0]
+  const ended = daysSinceJ2000 > days[last]
+  trail.visible = started
+  marker.visible = started && !ended
+  if (!started) return
+
+  const current = new THREE.Vector3()
+  const index = locateSpacecraft(objects, daysSinceJ2000, current)
+
+  const positions = trail.geometry.getAttribute('position') as THREE.BufferAttribute
+  const point = new THREE.Vector3()
+  for (let i = 0; i <= index; i++) {
+    toScenePosition(positionsMkm[i], distanceScale, point)
+    positions.setXYZ(i, point.x, point.y, point.z)
+  }
+  toScenePosition(current, distanceScale, marker.position)
+  positions.setXYZ(index + 1, marker.position.x, marker.position.y, marker.position.z)
+  positions.needsUpdate = true
+  trail.geometry.setDrawRange(0, index + 2)
+}
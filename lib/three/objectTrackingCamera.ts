@@ -1,13 +1,52 @@
 import * as THREE from 'three'
+import { EventEmitter } from 'events'
 import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 
 
 const DEFAULT_OFFSET = 20 // Default camera distance from target when not tracking
-const DEFAULT_OBJECT_LERP_ALPHA = 0.02 // Default smoothing factor for object tracking camera movement
-const DEFAULT_LERP_ALPHA = 0.02 // Smoothing factor for general camera tracking updates
-const DEFAULT_RESET_LERP_ALPHA = 0.01 // Smoothing factor for camera reset (slower movement)
 const FOCUS_OFFSET_SCALE = 3 // Multiplier to determine camera offset based on object size
-const RESET_FINISH_THRESHOLD = 0.01 // Threshold to determine when camera reset is "close enough" to finish
+export const FOCUS_DURATION_SEC = 2.5 // Default duration of a focus transition
+export const RESET_DURATION_SEC = 3 // Default duration of a camera reset
+// Spring stiffness × duration at which a critically damped spring starting at rest
+// has 0.1% of the way left: (1 + x)·e^(−x) = 0.001, so the final snap is invisible
+const SPRING_SETTLE_FACTOR = 9.23
+
+// Kind of camera transition
+export type CameraTransitionKind = 'focus' | 'reset'
+
+// Why a transition ended early: another transition started, the user grabbed
+// the orbit controls, or tracking was cleared (e.g. a tour took over the camera)
+export type CameraCancelReason = 'superseded' | 'user' | 'cleared'
+
+// Payload of the trackingCameraEvents events
+export interface CameraTransitionEvent {
+  kind: CameraTransitionKind
+  object: THREE.Object3D | null // Focused object (null for resets)
+  reason?: CameraCancelReason // Set for 'cancel'
+}
+
+// Camera motion towards its destination, for motion effects (e.g. the warp blur)
+export interface TrackingMotion {
+  relativeSpeed: number // Camera speed relative to the destination in the last update, in distances to it per second
+  target: THREE.Vector3 // Destination the camera is heading to (world space)
+}
+
+// A running focus or reset
+interface Transition {
+  kind: CameraTransitionKind
+  object: THREE.Object3D | null
+  elapsed: number
+  duration: number
+  resolve: (completed: boolean) => void
+}
+
+/**
+ * Transition events, so the UI and the voice assistant can chain actions:
+ * - 'start': A focus or reset transition began (payload: CameraTransitionEvent)
+ * - 'complete': The camera arrived (payload: CameraTransitionEvent)
+ * - 'cancel': The transition ended early (payload: CameraTransitionEvent with a reason)
+ */
+export const trackingCameraEvents = new EventEmitter()
 
 let trackedObject: THREE.Object3D | null = null
 let camera: THREE.PerspectiveCamera | null = null
@@ -15,85 +54,272 @@ let controls: OrbitControls | null = null
 let initialCameraPos: THREE.Vector3 | null = null
 let initialCameraTarget: THREE.Vector3 | null = null
 let offset = DEFAULT_OFFSET
-let lerpAlpha = DEFAULT_LERP_ALPHA
-const resetLerpAlpha = DEFAULT_RESET_LERP_ALPHA
 let resetTargetPos: THREE.Vector3 | null = null
 let resetTargetFocus: THREE.Vector3 | null = null
+let transition: Transition | null = null
+// Direction from the focused object the camera settles in (fixed when the focus starts)
+const focusDirection = new THREE.Vector3()
+// Spring velocities (relative to the focused object while focusing), carried into an interrupting transition
+const cameraVelocity = new THREE.Vector3()
+const targetVelocity = new THREE.Vector3()
+// Camera motion of the last update (see getTrackingMotion)
+const motion = { relativeSpeed: 0, target: new THREE.Vector3() }
+const previousCameraPos = new THREE.Vector3()
+const previousTargetPos = new THREE.Vector3()
+let hasPreviousTarget = false
 
-// Initialize camera tracking system
+// Initialize camera tracking system (again after a scene rebuild: the previous scene's tracking is dropped)
 export function initObjectTrackingCamera(
   cam: THREE.PerspectiveCamera,
   ctrls: OrbitControls,
-  defaultOffset = DEFAULT_OFFSET,
-  objectLerpAlpha = DEFAULT_OBJECT_LERP_ALPHA
+  defaultOffset = DEFAULT_OFFSET
 ) {
+  clearTracking()
+  motion.relativeSpeed = 0
+  hasPreviousTarget = false
   camera = cam
   controls = ctrls
   // Save initial camera position and target for reset
   initialCameraPos = cam.position.clone()
   initialCameraTarget = ctrls.target.clone()
-  // Cancel any reset in progress on user interaction
+  // The user grabbing the controls cancels a transition in flight and takes over the camera
   controls.addEventListener('start', () => {
+    if (!transition) return
+    cancelTransition('user')
+    trackedObject = null
     resetTargetPos = null
     resetTargetFocus = null
   })
   offset = defaultOffset
-  lerpAlpha = objectLerpAlpha
 }
 
-// Start tracking a specific object, adjusting offset based on size
-export function focusOnObject(obj: THREE.Object3D, size = 1, customOffset?: number) {
-  trackedObject = obj
+/**
+ * Ends the running transition, if any, resolving its promise with false.
+ * @param reason - Why it ended
+ */
+function cancelTransition(reason: CameraCancelReason) {
+  if (!transition) return
+  const { kind, object, resolve } = transition
+  transition = null
+  resolve(false)
+  trackingCameraEvents.emit('cancel', { kind, object, reason })
+}
+
+/**
+ * Starts a transition (cancelling the running one). A transition interrupting
+ * another one in flight keeps the camera's velocity, so the camera curves
+ * towards the new goal instead of stopping dead; otherwise it starts at rest.
+ * @param kind - Focus or reset
+ * @param object - Focused object (null for resets)
+ * @param durationSec - Time to arrive
+ * @returns Resolves with true on arrival, false when cancelled
+ */
+function startTransition(kind: CameraTransitionKind, object: THREE.Object3D | null, durationSec: number): Promise<boolean> {
+  if (!transition) {
+    cameraVelocity.set(0, 0, 0)
+    targetVelocity.set(0, 0, 0)
+  }
+  cancelTransition('superseded')
+  return new Promise(resolve => {
+    transition = { kind, object, elapsed: 0, duration: Math.max(durationSec, 0), resolve }
+    trackingCameraEvents.emit('start', { kind, object })
+  })
+}
+
+// Ends the running transition on arrival
+function completeTransition() {
+  if (!transition) return
+  const { kind, object, resolve } = transition
+  transition = null
+  resolve(true)
+  trackingCameraEvents.emit('complete', { kind, object })
+}
+
+/**
+ * Advances a critically damped spring towards a goal by a time step. The
+ * exact solution is used, so the path does not depend on the frame rate.
+ * @param value - Current value (updated)
+ * @param velocity - Current velocity (updated)
+ * @param goal - Rest position
+ * @param stiffness - Angular frequency ω (1/s)
+ * @param deltaSec - Time step
+ */
+function stepSpring(value: THREE.Vector3, velocity: THREE.Vector3, goal: THREE.Vector3, stiffness: number, deltaSec: number) {
+  const decay = Math.exp(-stiffness * deltaSec)
+  const change = value.clone().sub(goal)
+  const impulse = velocity.clone().addScaledVector(change, stiffness).multiplyScalar(deltaSec)
+  velocity.addScaledVector(impulse, -stiffness).multiplyScalar(decay)
+  value.copy(goal).add(change.add(impulse).multiplyScalar(decay))
+}
+
+/**
+ * Advances the running transition's clock.
+ * @param deltaSec - Real seconds since the last update
+ * @returns Spring stiffness for this step, or null once the transition is due (snap to the goal)
+ */
+function advanceTransition(deltaSec: number): number | null {
+  if (!transition) return null
+  transition.elapsed += deltaSec
+  if (transition.elapsed >= transition.duration) return null
+  return SPRING_SETTLE_FACTOR / transition.duration
+}
+
+/**
+ * Starts tracking an object, flying to it over a fixed duration and then
+ * following it. The camera keeps its viewing direction and settles at an
+ * offset proportional to the object size.
+ * @param obj - Object to focus
+ * @param size - Object radius (scene units)
+ * @param customOffset - Camera distance, instead of one from the size
+ * @param durationSec - Flight time
+ * @returns Resolves with true once the camera arrived, false if cancelled
+ */
+export function focusOnObject(obj: THREE.Object3D, size = 1, customOffset?: number, durationSec = FOCUS_DURATION_SEC): Promise<boolean> {
+  if (!camera) return Promise.resolve(false)
   // Cancel any reset in progress
   resetTargetPos = null
   resetTargetFocus = null
+  trackedObject = obj
   // Set offset proportional to object size
   offset = customOffset ?? size * FOCUS_OFFSET_SCALE
+  focusDirection.copy(camera.position).sub(obj.getWorldPosition(new THREE.Vector3()))
+  if (focusDirection.lengthSq() === 0) focusDirection.set(0, 0, 1)
+  focusDirection.normalize()
+  return startTransition('focus', obj, durationSec)
 }
 
-// Stop tracking any object
+// Stop tracking any object and cancel any reset in progress (e.g. when a tour takes over the camera)
 export function clearTracking() {
+  cancelTransition('cleared')
   trackedObject = null
+  resetTargetPos = null
+  resetTargetFocus = null
+}
+
+// Object currently followed by the camera, if any
+export function getTrackedObject() {
+  return trackedObject
+}
+
+/**
+ * Moves the camera and every stored position by an offset, for when the world
+ * is re-centered (see floatingOrigin.ts), so tracking and resets continue seamlessly.
+ * @param offset - Translation applied to the world
+ * @param shiftHome - Also move the reset pose; false when the world origin itself
+ * changes (see ReferenceFrame), so resets frame the new origin
+ */
+export function shiftTrackingCamera(offset: THREE.Vector3, shiftHome = true) {
+  if (!camera || !controls) return
+  camera.position.add(offset)
+  controls.target.add(offset)
+  if (shiftHome) {
+    initialCameraPos?.add(offset)
+    initialCameraTarget?.add(offset)
+    resetTargetPos?.add(offset)
+    resetTargetFocus?.add(offset)
+  }
+  previousTargetPos.add(offset)
+  motion.target.add(offset)
+  camera.updateMatrixWorld()
 }
 
-// Smoothly reset camera to the initial position and target
-export function resetCamera() {
+/**
+ * Smoothly resets the camera to the initial position and target over a fixed duration.
+ * @param durationSec - Flight time
+ * @returns Resolves with true once the camera is home, false if cancelled
+ */
+export function resetCamera(durationSec = RESET_DURATION_SEC): Promise<boolean> {
   trackedObject = null
-  if (initialCameraPos && initialCameraTarget) {
-    resetTargetPos = initialCameraPos.clone()
-    resetTargetFocus = initialCameraTarget.clone()
+  if (!initialCameraPos || !initialCameraTarget) {
+    cancelTransition('superseded')
+    return Promise.resolve(false)
   }
+  resetTargetPos = initialCameraPos.clone()
+  resetTargetFocus = initialCameraTarget.clone()
+  return startTransition('reset', null, durationSec)
 }
 
-// Update camera position and target each frame
-export function updateTrackingCamera() {
+/**
+ * Records how fast the camera moved relative to its destination. Following a
+ * moving planet at a steady distance counts as no motion.
+ * @param target - Destination this update (world space)
+ * @param deltaSec - Real seconds since the last update
+ */
+function recordMotion(target: THREE.Vector3, deltaSec: number) {
+  if (!camera || deltaSec <= 0) return
+  const cameraDelta = camera.position.clone().sub(previousCameraPos)
+  const targetDelta = hasPreviousTarget ? target.clone().sub(previousTargetPos) : new THREE.Vector3()
+  const distance = Math.max(camera.position.distanceTo(target), Number.EPSILON)
+  motion.relativeSpeed = cameraDelta.sub(targetDelta).length() / distance / deltaSec
+  motion.target.copy(target)
+  previousTargetPos.copy(target)
+  hasPreviousTarget = true
+}
+
+// Motion of the last updateTrackingCamera call (no motion while the user drives the camera)
+export function getTrackingMotion(): TrackingMotion {
+  return motion
+}
+
+/**
+ * Update camera position and target each frame. Transitions are springs
+ * stepped by real time, so they take the same time at any frame rate.
+ * @param deltaSec - Real (wall clock) seconds since the last update
+ * @returns Whether an object is being tracked (the orbit controls must not update)
+ */
+export function updateTrackingCamera(deltaSec: number) {
   if (!camera || !controls) return false
-  // If tracking an object, smoothly follow it
+  previousCameraPos.copy(camera.position)
+  // If tracking an object, fly to it (in its own frame, so its motion does not drag the camera behind) and follow it
   if (trackedObject) {
     const worldTarget = new THREE.Vector3()
     trackedObject.getWorldPosition(worldTarget)
-    controls.target.lerp(worldTarget, lerpAlpha)
-    const dir = camera.position.clone().sub(controls.target).normalize()
-    const desiredPos = controls.target.clone().add(dir.multiplyScalar(offset))
-    camera.position.lerp(desiredPos, lerpAlpha)
+    if (transition?.kind === 'focus') {
+      const cameraOffset = camera.position.clone().sub(worldTarget)
+      const targetOffset = controls.target.clone().sub(worldTarget)
+      const goal = focusDirection.clone().multiplyScalar(offset)
+      const stiffness = advanceTransition(deltaSec)
+      if (stiffness === null) {
+        cameraOffset.copy(goal)
+        targetOffset.set(0, 0, 0)
+        completeTransition()
+      } else {
+        stepSpring(cameraOffset, cameraVelocity, goal, stiffness, deltaSec)
+        stepSpring(targetOffset, targetVelocity, new THREE.Vector3(), stiffness, deltaSec)
+      }
+      camera.position.copy(worldTarget).add(cameraOffset)
+      controls.target.copy(worldTarget).add(targetOffset)
+    } else {
+      // Arrived: move along with the object
+      camera.position.add(worldTarget.clone().sub(controls.target))
+      controls.target.copy(worldTarget)
+    }
     camera.lookAt(controls.target)
+    recordMotion(worldTarget, deltaSec)
     return true
   }
   // If resetting, smoothly move to default position/target
   if (resetTargetPos && resetTargetFocus) {
-    controls.target.lerp(resetTargetFocus, resetLerpAlpha)
-    camera.position.lerp(resetTargetPos, resetLerpAlpha)
+    const stiffness = advanceTransition(deltaSec)
+    if (stiffness === null) {
+      camera.position.copy(resetTargetPos)
+      controls.target.copy(resetTargetFocus)
+    } else {
+      stepSpring(camera.position, cameraVelocity, resetTargetPos, stiffness, deltaSec)
+      stepSpring(controls.target, targetVelocity, resetTargetFocus, stiffness, deltaSec)
+    }
     camera.lookAt(controls.target)
-    // Finish reset when close enough
-    if (
-      camera.position.distanceTo(resetTargetPos) < RESET_FINISH_THRESHOLD &&
-      controls.target.distanceTo(resetTargetFocus) < RESET_FINISH_THRESHOLD
-    ) {
+    recordMotion(resetTargetFocus, deltaSec)
+    // Finish the reset when due
+    if (stiffness === null) {
       resetTargetPos = null
       resetTargetFocus = null
+      completeTransition()
     }
     return false
   }
   // No tracking or reset in progress
+  motion.relativeSpeed = 0
+  hasPreviousTarget = false
   return false
-} 
\ No newline at end of file
+}
@@ -0,0 +1,176 @@
+// Keplerian orbit helpers: orbital elements → positions and orbit line geometry
+import * as THREE from 'three'
+
+// =========================
+// Kepler solver constants
+// =========================
+const KEPLER_TOLERANCE = 1e-10 // Newton-Raphson convergence threshold (radians) for the eccentric anomaly
+const KEPLER_MAX_ITERATIONS = 30 // Safety cap on solver iterations (highly eccentric orbits converge slower)
+const HIGH_ECCENTRICITY = 0.8 // Above this, start the solver at E = π for stable convergence
+const SECONDS_PER_DAY = 86400 // Used to derive circular orbital periods (days) from orbital speed
+const TWO_PI = Math.PI * 2
+
+// =========================
+// Type Definitions
+// =========================
+
+// Secular drift of the orbital elements per Julian century
+export type OrbitalElementRates = Partial<Pick<OrbitalElements,
+  'semi_major_axis_million_km' | 'eccentricity' | 'inclination_deg' | 'longitude_ascending_node_deg' | 'argument_perihelion_deg'
+>>
+
+// Classical orbital elements of a body relative to its parent (the Sun for planets), at the J2000 epoch
+export interface OrbitalElements {
+  semi_major_axis_million_km: number
+  eccentricity: number
+  inclination_deg: number
+  longitude_ascending_node_deg: number
+  argument_perihelion_deg: number
+  mean_anomaly_deg: number // Mean anomaly at epoch
+  orbital_period_days: number
+  rates_per_century?: OrbitalElementRates
+}
+
+// Minimal body shape needed to derive orbital elements
+interface OrbitingBody {
+  distance_from_sun_million_km: number
+  orbital_speed_kms: number
+  orbit?: OrbitalElements
+}
+
+// Maps a heliocentric distance (million km) to a scene distance
+export type DistanceScale = (millionKm: number) => number
+
+// =========================
+// Orbital mechanics
+// =========================
+
+/**
+ * Returns the body's orbital elements, deriving a circular orbit from
+ * distance and orbital speed when no elements are given in the data.
+ */
+export function getOrbitalElements(body: OrbitingBody): OrbitalElements | null {
+  if (body.orbit) return body.orbit
+  if (body.distance_from_sun_million_km <= 0 || body.orbital_speed_kms <= 0) return null
+  const circumferenceKm = TWO_PI * body.distance_from_sun_million_km * 1e6
+  return {
+    semi_major_axis_million_km: body.distance_from_sun_million_km,
+    eccentricity: 0,
+    inclination_deg: 0,
+    longitude_ascending_node_deg: 0,
+    argument_perihelion_deg: 0,
+    mean_anomaly_deg: 0,
+    orbital_period_days: circumferenceKm / body.orbital_speed_kms / SECONDS_PER_DAY,
+  }
+}
+
+/**
+ * Solves Kepler's equation M = E - e·sin(E) for the eccentric anomaly E.
+ * @param meanAnomaly - Mean anomaly in radians (any range)
+ * @param eccentricity - Orbital eccentricity (0 ≤ e < 1)
+ * @returns Eccentric anomaly in radians
+ */
+export function solveKeplerEquation(meanAnomaly: number, eccentricity: number): number {
+  const M = THREE.MathUtils.euclideanModulo(meanAnomaly, TWO_PI)
+  let E = eccentricity < HIGH_ECCENTRICITY ? M : Math.PI
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const dE = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E))
+    E -= dE
+    if (Math.abs(dE) < KEPLER_TOLERANCE) break
+  }
+  return E
+}
+
+/**
+ * Mean anomaly at a time relative to the elements' epoch.
+ * @param elements - Orbital elements of the body
+ * @param daysSinceEpoch - Days elapsed since the epoch (negative for the past)
+ * @returns Mean anomaly in radians, wrapped to [0, 2π)
+ */
+export function getMeanAnomaly(elements: OrbitalElements, daysSinceEpoch: number): number {
+  const meanAnomalyAtEpoch = THREE.MathUtils.degToRad(elements.mean_anomaly_deg)
+  const meanMotion = TWO_PI / elements.orbital_period_days
+  return THREE.MathUtils.euclideanModulo(meanAnomalyAtEpoch + meanMotion * daysSinceEpoch, TWO_PI)
+}
+
+/**
+ * Position on the orbit for a given eccentric anomaly, in million km.
+ * Ecliptic axes are mapped to Three.js axes with Y as ecliptic north,
+ * so prograde orbits turn the same way as a positive rotation around +Y.
+ */
+function getPositionFromEccentricAnomaly(
+  elements: OrbitalElements,
+  eccentricAnomaly: number,
+  target: THREE.Vector3
+): THREE.Vector3 {
+  const a = elements.semi_major_axis_million_km
+  const e = elements.eccentricity
+  // Position in the orbital plane (perihelion along +x)
+  const xp = a * (Math.cos(eccentricAnomaly) - e)
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(eccentricAnomaly)
+
+  const i = THREE.MathUtils.degToRad(elements.inclination_deg)
+  const node = THREE.MathUtils.degToRad(elements.longitude_ascending_node_deg)
+  const peri = THREE.MathUtils.degToRad(elements.argument_perihelion_deg)
+  const cosO = Math.cos(node), sinO = Math.sin(node)
+  const cosW = Math.cos(peri), sinW = Math.sin(peri)
+  const cosI = Math.cos(i), sinI = Math.sin(i)
+
+  // Rotate into ecliptic coordinates
+  const x = (cosO * cosW - sinO * sinW * cosI) * xp + (-cosO * sinW - sinO * cosW * cosI) * yp
+  const y = (sinO * cosW + cosO * sinW * cosI) * xp + (-sinO * sinW + cosO * cosW * cosI) * yp
+  const z = (sinW * sinI) * xp + (cosW * sinI) * yp
+
+  return target.set(x, z, -y)
+}
+
+/**
+ * Position of a body relative to its parent for a given mean anomaly.
+ * @param elements - Orbital elements of the body
+ * @param meanAnomaly - Mean anomaly in radians
+ * @param target - Vector to write into
+ * @returns Position in million km (Three.js axes)
+ */
+export function getOrbitalPosition(
+  elements: OrbitalElements,
+  meanAnomaly: number,
+  target = new THREE.Vector3()
+): THREE.Vector3 {
+  const E = solveKeplerEquation(meanAnomaly, elements.eccentricity)
+  return getPositionFromEccentricAnomaly(elements, E, target)
+}
+
+/**
+ * Converts a position in million km to scene units, scaling only the radial
+ * distance so the direction (and thus orbit shape orientation) is preserved.
+ */
+export function toScenePosition(
+  positionMkm: THREE.Vector3,
+  distanceScale: DistanceScale,
+  target = new THREE.Vector3()
+): THREE.Vector3 {
+  const r = positionMkm.length()
+  if (r === 0) return target.set(0, 0, 0)
+  return target.copy(positionMkm).multiplyScalar(distanceScale(r) / r)
+}
+
+/**
+ * Builds the vertices of a closed orbit path in scene units.
+ * Samples evenly in eccentric anomaly and uses the same mapping as the
+ * body positions, so bodies sit exactly on their drawn path.
+ */
+export function createOrbitVertices(
+  elements: OrbitalElements,
+  distanceScale: DistanceScale,
+  segments: number
+): number[] {
+  const vertices: number[] = []
+  const point = new THREE.Vector3()
+  for (let j = 0; j <= segments; j++) {
+    const E = (j / segments) * TWO_PI
+    getPositionFromEccentricAnomaly(elements, E, point)
+    toScenePosition(point, distanceScale, point)
+    vertices.push(point.x, point.y, point.z)
+  }
+  return vertices
+}
@@ -0,0 +1,181 @@
+// Pointer picking of bodies in the canvas: hover highlight, click/tap to focus,
+// double-click/double-tap on empty space to reset the camera
+import * as THREE from 'three'
+import { getBodySceneRadius } from './solarSystem'
+import { isShown } from './labels'
+import type { FocusTarget } from './gui'
+
+// =========================
+// Picking constants
+// =========================
+const MIN_HIT_RADIUS_PX = 12 // Hit spheres cover at least this many pixels, so tiny bodies stay clickable
+const HIT_RADIUS_SCALE = 1.2 // Hit sphere radius in body radii (a little slack around the limb)
+const CLICK_MOVE_TOLERANCE_PX = 6 // A press that moves further is a drag (orbit controls), not a click
+const DOUBLE_TAP_MS = 350 // Second click/tap on empty space within this time resets the camera
+const HIGHLIGHT_COLOR = 0x66ccff // Hover ring color
+const HIGHLIGHT_OPACITY = 0.8 // Hover ring opacity
+const HIGHLIGHT_RING_WIDTH = 0.12 // Ring width, as a fraction of its radius
+const HIGHLIGHT_SEGMENTS = 64 // Smoothness of the hover ring
+
+// =========================
+// Picking layer
+// =========================
+
+/**
+ * Picks focus targets under the pointer. Every target gets an invisible hit
+ * sphere, enlarged on screen to MIN_HIT_RADIUS_PX; a ray through the pointer
+ * prefers bodies it really hits (the nearest), then the enlarged sphere it
+ * passes closest to the center of.
+ */
+export class PickingLayer {
+  private domElement: HTMLElement
+  private camera: THREE.PerspectiveCamera
+  private targets: FocusTarget[]
+  private onPick: (name: string, mesh: THREE.Object3D) => void
+  private onReset: () => void
+  private raycaster = new THREE.Raycaster()
+  private pointer = new THREE.Vector2()
+  private highlight: THREE.Mesh
+  private hovered: FocusTarget | null = null
+  private pressPosition: THREE.Vector2 | null = null
+  private lastEmptyTapMs = -Infinity
+
+  /**
+   * @param domElement - Canvas receiving pointer events
+   * @param scene - Scene to add the hover ring to
+   * @param camera - Rendering camera
+   * @param targets - Pickable bodies (the GUI focus targets)
+   * @param onPick - Called with the clicked/tapped body
+   * @param onReset - Called on a double-click/double-tap on empty space
+   */
+  constructor(
+    domElement: HTMLElement,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    targets: FocusTarget[],
+    onPick: (name: string, mesh: THREE.Object3D) => void,
+    onReset: () => void
+  ) {
+    this.domElement = domElement
+    this.camera = camera
+    this.targets = targets
+    this.onPick = onPick
+    this.onReset = onReset
+    this.highlight = new THREE.Mesh(
+      new THREE.RingGeometry(1 - HIGHLIGHT_RING_WIDTH, 1, HIGHLIGHT_SEGMENTS),
+      new THREE.MeshBasicMaterial({ color: HIGHLIGHT_COLOR, transparent: true, opacity: HIGHLIGHT_OPACITY, depthTest: false })
+    )
+    this.highlight.name = 'pick_highlight'
+    this.highlight.visible = false
+    scene.add(this.highlight)
+    domElement.addEventListener('pointerdown', this.handlePointerDown)
+    domElement.addEventListener('pointerup', this.handlePointerUp)
+    domElement.addEventListener('pointermove', this.handlePointerMove)
+    domElement.addEventListener('pointerleave', this.handlePointerLeave)
+  }
+
+  /**
+   * Keeps the hover ring around the hovered body, facing the camera. Call once per frame.
+   */
+  update() {
+    if (!this.hovered || !isShown(this.hovered.mesh)) {
+      this.highlight.visible = false
+      return
+    }
+    const center = this.hovered.mesh.getWorldPosition(new THREE.Vector3())
+    this.highlight.position.copy(center)
+    this.highlight.quaternion.copy(this.camera.quaternion)
+    this.highlight.scale.setScalar(this.getHitRadius(this.hovered.mesh, center))
+    this.highlight.visible = true
+  }
+
+  dispose() {
+    this.domElement.removeEventListener('pointerdown', this.handlePointerDown)
+    this.domElement.removeEventListener('pointerup', this.handlePointerUp)
+    this.domElement.removeEventListener('pointermove', this.handlePointerMove)
+    this.domElement.removeEventListener('pointerleave', this.handlePointerLeave)
+    this.domElement.style.cursor = ''
+    this.highlight.removeFromParent()
+    const material = this.highlight.material as THREE.Material
+    this.highlight.geometry.dispose()
+    material.dispose()
+  }
+
+  /**
+   * Hit sphere radius: the body's own radius with some slack, or the radius
+   * covering MIN_HIT_RADIUS_PX at its distance, whichever is larger.
+   * @param mesh - Body
+   * @param center - Body position (world space)
+   */
+  private getHitRadius(mesh: THREE.Object3D, center: THREE.Vector3): number {
+    const distance = center.distanceTo(this.camera.position)
+    const unitsPerPixel = (2 * distance * Math.tan(THREE.MathUtils.degToRad(this.camera.fov) / 2)) / this.domElement.clientHeight
+    return Math.max(getBodySceneRadius(mesh) * HIT_RADIUS_SCALE, MIN_HIT_RADIUS_PX * unitsPerPixel)
+  }
+
+  /**
+   * Finds the body under a pointer event, if any.
+   * @param event - Pointer event on the canvas
+   */
+  private pick(event: PointerEvent): FocusTarget | null {
+    const rect = this.domElement.getBoundingClientRect()
+    this.pointer.set(((event.clientX - rect.left) / rect.width) * 2 - 1, -((event.clientY - rect.top) / rect.height) * 2 + 1)
+    this.raycaster.setFromCamera(this.pointer, this.camera)
+    const ray = this.raycaster.ray
+    let surfaceHit: { target: FocusTarget; distance: number } | null = null
+    let nearHit: { target: FocusTarget; offset: number } | null = null
+    const center = new THREE.Vector3()
+    const hitPoint = new THREE.Vector3()
+    for (const target of this.targets) {
+      if (!isShown(target.mesh)) continue
+      target.mesh.getWorldPosition(center)
+      const radius = getBodySceneRadius(target.mesh)
+      if (ray.intersectSphere(new THREE.Sphere(center, radius), hitPoint)) {
+        const distance = hitPoint.distanceTo(ray.origin)
+        if (!surfaceHit || distance < surfaceHit.distance) surfaceHit = { target, distance }
+        continue
+      }
+      const hitRadius = this.getHitRadius(target.mesh, center)
+      if (!ray.intersectsSphere(new THREE.Sphere(center, hitRadius))) continue
+      // Distance of the ray from the center, relative to the hit sphere
+      const offset = Math.sqrt(ray.distanceSqToPoint(center)) / hitRadius
+      if (!nearHit || offset < nearHit.offset) nearHit = { target, offset }
+    }
+    return surfaceHit?.target ?? nearHit?.target ?? null
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    this.pressPosition = new THREE.Vector2(event.clientX, event.clientY)
+  }
+
+  // A press released without dragging is a click (mouse) or a tap (touch, pen)
+  private handlePointerUp = (event: PointerEvent) => {
+    const press = this.pressPosition
+    this.pressPosition = null
+    if (!press || press.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) > CLICK_MOVE_TOLERANCE_PX) return
+    const target = this.pick(event)
+    if (target) {
+      this.lastEmptyTapMs = -Infinity
+      this.onPick(target.name, target.mesh)
+      return
+    }
+    if (event.timeStamp - this.lastEmptyTapMs < DOUBLE_TAP_MS) {
+      this.lastEmptyTapMs = -Infinity
+      this.onReset()
+    } else {
+      this.lastEmptyTapMs = event.timeStamp
+    }
+  }
+
+  // Hover only applies to mice (touch has no hover; a drag in progress is orbiting)
+  private handlePointerMove = (event: PointerEvent) => {
+    if (event.pointerType !== 'mouse' || this.pressPosition) return
+    this.hovered = this.pick(event)
+    this.domElement.style.cursor = this.hovered ? 'pointer' : ''
+  }
+
+  private handlePointerLeave = () => {
+    this.hovered = null
+    this.domElement.style.cursor = ''
+  }
+}
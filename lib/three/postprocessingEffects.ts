@@ -1,6 +1,12 @@
 import * as THREE from 'three';
 import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
 
+// Warp (live radial blur) constants
+const WARP_SPEED_THRESHOLD = 0.3; // Relative camera speed (distances to the target per second) below which there is no warp (slow drifts, settling)
+const WARP_GAIN = 0.13; // Blur strength per unit of relative speed above the threshold
+const WARP_MAX_STRENGTH = 0.6; // Strongest warp
+const WARP_SMOOTHING_RATE = 6; // Easing rate of strength and center, per second (avoids flicker)
+
 // Simple Radial Blur Shader
 export const RadialBlurShader = {
   uniforms: {
@@ -73,4 +79,116 @@ export function setRadialBlurSamples(pass: ShaderPass, samples: number) {
   }
 }
 
-// Note: setRadialBlurSamples is available but not currently used - samples are set to fixed value (3) 
\ No newline at end of file
+/**
+ * Live mode: warp streaks while the camera flies to a target. Strength follows
+ * the camera speed relative to the target, and the streaks radiate from the
+ * target's screen position (the screen center when it is behind the camera).
+ * @param pass - Radial blur pass
+ * @param relativeSpeed - Camera speed in distances to the target per second
+ * @param target - World position the camera is heading to
+ * @param camera - Rendering camera
+ * @param deltaSec - Real seconds since the last frame
+ */
+export function updateRadialBlurFromMotion(pass: ShaderPass, relativeSpeed: number, target: THREE.Vector3, camera: THREE.Camera, deltaSec: number) {
+  const wanted = Math.min(Math.max(relativeSpeed - WARP_SPEED_THRESHOLD, 0) * WARP_GAIN, WARP_MAX_STRENGTH);
+  const { strength, center } = pass.uniforms;
+  // Frame-rate independent easing
+  const smoothing = 1 - Math.exp(-WARP_SMOOTHING_RATE * deltaSec);
+  strength.value += (wanted - strength.value) * smoothing;
+  const ndc = target.clone().project(camera);
+  const wantedCenter = ndc.z < 1 ? new THREE.Vector2((ndc.x + 1) / 2, (ndc.y + 1) / 2) : new THREE.Vector2(0.5, 0.5);
+  center.value.lerp(wantedCenter, smoothing);
+}
+
+// Screen-space lens flare: a halo around the Sun and ghosts mirrored through the screen center
+export const LensFlareShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    sunPosition: { value: new THREE.Vector2(0.5, 0.5) }, // Sun in screen UV
+    visibility: { value: 0.0 }, // 0 when the Sun is off screen
+    intensity: { value: 1.0 },
+    aspect: { value: 1.0 }, // Width / height, keeps the discs round
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform vec2 sunPosition;
+    uniform float visibility;
+    uniform float intensity;
+    uniform float aspect;
+    varying vec2 vUv;
+
+    // Soft disc of the given radius (in screen heights)
+    float disc(vec2 center, float radius) {
+      vec2 d = (vUv - center) * vec2(aspect, 1.0);
+      return 1.0 - smoothstep(0.0, radius, length(d));
+    }
+
+    void main() {
+      vec4 color = texture2D(tDiffuse, vUv);
+      if (visibility > 0.0) {
+        // Ghosts sit on the line from the Sun through the screen center
+        vec2 axis = vec2(0.5) - sunPosition;
+        vec3 flare = vec3(1.0, 0.9, 0.7) * disc(sunPosition, 0.25) * 0.4;
+        flare += vec3(0.9, 0.6, 0.3) * disc(sunPosition + axis * 0.6, 0.04) * 0.5;
+        flare += vec3(0.4, 0.8, 0.6) * disc(sunPosition + axis * 1.2, 0.07) * 0.3;
+        flare += vec3(0.5, 0.5, 1.0) * disc(sunPosition + axis * 1.6, 0.03) * 0.4;
+        flare += vec3(0.8, 0.5, 0.8) * disc(sunPosition + axis * 2.0, 0.1) * 0.2;
+        color.rgb += flare * visibility * intensity;
+      }
+      gl_FragColor = color;
+    }
+  `,
+};
+
+// Film grain and vignette (each off at 0)
+export const GrainVignetteShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    time: { value: 0.0 }, // Seconds, animates the grain
+    grain: { value: 0.0 }, // Grain amplitude
+    vignette: { value: 0.0 }, // Corner darkening (1 = black corners)
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float time;
+    uniform float grain;
+    uniform float vignette;
+    varying vec2 vUv;
+
+    float random(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      vec4 color = texture2D(tDiffuse, vUv);
+      // Per-pixel noise, different every frame
+      color.rgb += (random(vUv + fract(time)) - 0.5) * grain;
+      // Darken towards the corners (distance 1 at the corners)
+      float d = length(vUv - 0.5) * 1.41421;
+      color.rgb *= 1.0 - vignette * smoothstep(0.5, 1.0, d);
+      gl_FragColor = color;
+    }
+  `,
+};
+
+export function createLensFlarePass(): ShaderPass {
+  return new ShaderPass(LensFlareShader);
+}
+
+export function createGrainVignettePass(): ShaderPass {
+  return new ShaderPass(GrainVignetteShader);
+}
@@ -0,0 +1,165 @@
+// Quality tiers: texture resolution, geometry detail, pixel ratio and post-processing per device class
+import { getDeviceType } from '../utils/mobile'
+
+// =========================
+// Type Definitions
+// =========================
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra'
+
+// Texture resolution, as in the file name prefix (e.g. 2k_earth.jpg)
+export type TextureSize = '1k' | '2k' | '4k' | '8k'
+
+export interface QualitySettings {
+  textureSize: TextureSize // Body textures
+  skyboxSize: TextureSize // Star background
+  sunSegments: number // Sphere segments of the Sun
+  planetSegments: number // Sphere segments of planets, dwarf planets and comets
+  moonSegments: number // Sphere segments of moons (small on screen)
+  layerSegments: number // Sphere segments of atmosphere and cloud shells
+  orbitSegments: number // Vertices of each orbit ellipse
+  maxPixelRatio: number // Cap on the device pixel ratio
+  shadowMapSize: number // Resolution of each face of the Sun's shadow cube (rendered six times a frame)
+  postProcessing: boolean // Screen-space effects (radial blur)
+  radialBlurSamples: number // Samples per pixel of the radial (warp) blur
+}
+
+// =========================
+// Quality constants
+// =========================
+export const QUALITY_TIERS: Record<QualityTier, QualitySettings> = {
+  low: {
+    textureSize: '1k',
+    skyboxSize: '2k',
+    sunSegments: 32,
+    planetSegments: 32,
+    moonSegments: 16,
+    layerSegments: 32,
+    orbitSegments: 64,
+    maxPixelRatio: 1,
+    shadowMapSize: 512,
+    postProcessing: false,
+    radialBlurSamples: 3,
+  },
+  medium: {
+    textureSize: '2k',
+    skyboxSize: '4k',
+    sunSegments: 48,
+    planetSegments: 48,
+    moonSegments: 24,
+    layerSegments: 48,
+    orbitSegments: 96,
+    maxPixelRatio: 1.5,
+    shadowMapSize: 1024,
+    postProcessing: true,
+    radialBlurSamples: 4,
+  },
+  high: {
+    textureSize: '4k',
+    skyboxSize: '8k',
+    sunSegments: 64,
+    planetSegments: 64,
+    moonSegments: 32,
+    layerSegments: 64,
+    orbitSegments: 128,
+    maxPixelRatio: 2,
+    shadowMapSize: 2048,
+    postProcessing: true,
+    radialBlurSamples: 6,
+  },
+  ultra: {
+    textureSize: '8k',
+    skyboxSize: '8k',
+    sunSegments: 128,
+    planetSegments: 128,
+    moonSegments: 48,
+    layerSegments: 128,
+    orbitSegments: 256,
+    maxPixelRatio: 3,
+    shadowMapSize: 2048,
+    postProcessing: true,
+    radialBlurSamples: 10,
+  },
+}
+
+// Options for the GUI quality control
+export const QUALITY_TIER_OPTIONS: Record<string, QualityTier> = {
+  'Low (1k)': 'low',
+  'Medium (2k)': 'medium',
+  'High (4k)': 'high',
+  'Ultra (8k)': 'ultra',
+}
+
+const TEXTURE_SIZES: TextureSize[] = ['1k', '2k', '4k', '8k'] // Ascending
+// Resolutions shipped per texture (keyed by file name without the size prefix).
+// Textures not listed exist only in the size their path names.
+const TEXTURE_VARIANTS: Record<string, TextureSize[]> = {
+  'stars_milky_way.jpg': ['2k', '8k'],
+  'sun.jpg': ['1k', '2k'],
+  'mercury.jpg': ['1k', '2k'],
+  'venus.jpg': ['1k', '2k'],
+  'venus_surface.jpg': ['1k', '2k'],
+  'earth.jpg': ['1k', '2k', '4k'],
+  'earth_nightmap.jpg': ['1k', '2k', '4k'],
+  'earth_clouds.jpg': ['1k', '2k', '4k'],
+  'mars.jpg': ['1k', '2k'],
+  'jupiter.jpg': ['1k', '2k'],
+  'saturn.jpg': ['1k', '2k'],
+  'saturn_ring_alpha.png': ['1k', '2k'],
+  'uranus.jpg': ['1k', '2k'],
+  'neptune.jpg': ['1k', '2k'],
+}
+const SIZED_FILE_NAME = /^(.*\/)?(1k|2k|4k|8k)_([^/]+)$/ // [directory, size, rest of the file name]
+
+let currentTier: QualityTier = getDefaultQualityTier()
+
+// =========================
+// Tier selection & texture paths
+// =========================
+
+/**
+ * Default tier for the device class: phones get the light tier, tablets the
+ * medium one and desktops the high one (ultra is only picked manually).
+ */
+export function getDefaultQualityTier(): QualityTier {
+  const deviceType = getDeviceType()
+  if (deviceType === 'mobile') return 'low'
+  if (deviceType === 'tablet') return 'medium'
+  return 'high'
+}
+
+/**
+ * Selects the tier used by objects and textures created from now on.
+ * @param tier - Quality tier
+ */
+export function setQualityTier(tier: QualityTier) {
+  currentTier = tier
+}
+
+export function getQualityTier(): QualityTier {
+  return currentTier
+}
+
+export function getQualitySettings(): QualitySettings {
+  return QUALITY_TIERS[currentTier]
+}
+
+/**
+ * Picks the shipped resolution of a texture closest to the wanted size: the
+ * largest one not above it, or the smallest one if all are larger. Paths
+ * without a size prefix are returned unchanged.
+ * @param path - Texture path with a size prefix (e.g. /textures/planets/2k_mars.jpg)
+ * @param size - Wanted resolution
+ */
+export function resolveTexturePath(path: string, size: TextureSize): string {
+  const match = SIZED_FILE_NAME.exec(path)
+  if (!match) return path
+  const [, directory = '', authoredSize, name] = match
+  const available = TEXTURE_VARIANTS[name] ?? [authoredSize as TextureSize]
+  const wanted = TEXTURE_SIZES.indexOf(size)
+  const fitting = available.filter(s => TEXTURE_SIZES.indexOf(s) <= wanted)
+  const chosen = fitting.length > 0
+    ? fitting[fitting.length - 1]
+    : available.reduce((a, b) => (TEXTURE_SIZES.indexOf(a) < TEXTURE_SIZES.indexOf(b) ? a : b))
+  return `${directory}${chosen}_${name}`
+}
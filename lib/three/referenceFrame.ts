@@ -0,0 +1,56 @@
+// Reference frame: the body (the Sun by default) that stays fixed at the origin of
+// the world, e.g. Earth for a geocentric view where the planets trace retrograde loops
+import * as THREE from 'three'
+import { shiftTrackingCamera } from './objectTrackingCamera'
+
+/**
+ * Holds the solar system in `root` and moves it so the frame body stays at the
+ * world origin. Bodies keep their heliocentric positions inside the root.
+ */
+export class ReferenceFrame {
+  readonly root = new THREE.Group()
+  // Body fixed at the origin
+  body: THREE.Object3D
+
+  /**
+   * @param world - World root to add the frame root to
+   * @param body - Initial frame body (the Sun for the heliocentric frame), added to the root by the caller
+   */
+  constructor(world: THREE.Object3D, body: THREE.Object3D) {
+    this.root.name = 'frame'
+    this.body = body
+    world.add(this.root)
+  }
+
+  /**
+   * Switches the frame body. The camera is moved along so the view does not
+   * jump; from then on it stays fixed relative to the new body, and resetting
+   * the camera frames the new body.
+   * @param body - New frame body (a direct child of the root)
+   */
+  setBody(body: THREE.Object3D) {
+    this.body = body
+    const before = this.root.position.clone()
+    this.update()
+    shiftTrackingCamera(this.root.position.clone().sub(before), false)
+  }
+
+  /**
+   * Moves the root so the frame body is back at the origin. Call after the
+   * bodies moved (see updateSolarSystem).
+   */
+  update() {
+    this.root.position.copy(this.body.position).negate()
+    this.root.updateMatrixWorld()
+  }
+}
+
+/**
+ * Converts a rendered position to heliocentric scene coordinates.
+ * @param sun - Sun object
+ * @param position - Rendered (world space) position
+ * @param target - Vector to write the result to
+ */
+export function toHeliocentric(sun: THREE.Object3D, position: THREE.Vector3, target = new THREE.Vector3()) {
+  return target.copy(position).sub(sun.getWorldPosition(new THREE.Vector3()))
+}
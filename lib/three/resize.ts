@@ -1,5 +1,6 @@
 // Helper for handling Three.js camera and renderer resize
 import * as THREE from 'three'
+import { getQualitySettings } from './quality'
 
 /**
  * Updates camera aspect and renderer size on window resize.
@@ -13,5 +14,5 @@ export function handleResize(camera: THREE.PerspectiveCamera, renderer: THREE.We
   camera.aspect = sizes.width / sizes.height
   camera.updateProjectionMatrix()
   renderer.setSize(sizes.width, sizes.height)
-  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, getQualitySettings().maxPixelRatio))
 }
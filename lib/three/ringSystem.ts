@@ -0,0 +1,144 @@
+// Planetary ring systems: concentric bands, textured (Saturn) or procedural (Jupiter, Uranus, Neptune)
+import * as THREE from 'three';
+import { createBodyMaterial } from './lighting';
+
+// =========================
+// Ring constants
+// =========================
+const RING_ALPHA_TEST = 0.05; // Ring gaps below this alpha are skipped, so shadows fall through them
+const RING_PROFILE_SIZE = 256; // Texels of a procedural band's radial color/density profile
+const DEFAULT_RING_SEGMENTS = 64; // Angular segments of each band
+const MAX_BYTE = 255; // Color channel range of the profile texture
+
+// =========================
+// Type Definitions
+// =========================
+
+// Ring band settings (from solar-params.json). Bands without a color are
+// textured with the body's `ring_map`, stretched from the inner to the outer edge.
+export interface RingBand {
+  name?: string
+  inner: number // Inner radius, in planet radii
+  outer: number // Outer radius, in planet radii
+  opacity?: number // Overall opacity (faint dusty rings are well below 1)
+  color?: string // Procedural band color
+  profile?: number[] // Procedural density (0-1) from the inner to the outer edge, evenly spaced; uniform if omitted
+}
+
+// =========================
+// Ring system creation
+// =========================
+
+/**
+ * Builds a 1D color/density texture for a procedural band, linearly
+ * interpolating the profile samples.
+ * @param color - Band color
+ * @param profile - Density samples from the inner to the outer edge
+ */
+function createProfileTexture(color: string, profile: number[] = [1]): THREE.DataTexture {
+  const rgb = new THREE.Color(color);
+  const data = new Uint8Array(RING_PROFILE_SIZE * 4);
+  for (let i = 0; i < RING_PROFILE_SIZE; i++) {
+    const f = (i / (RING_PROFILE_SIZE - 1)) * (profile.length - 1);
+    const i0 = Math.floor(f);
+    const i1 = Math.min(i0 + 1, profile.length - 1);
+    const density = THREE.MathUtils.lerp(profile[i0], profile[i1], f - i0);
+    data.set([rgb.r * MAX_BYTE, rgb.g * MAX_BYTE, rgb.b * MAX_BYTE, THREE.MathUtils.clamp(density, 0, 1) * MAX_BYTE], i * 4);
+  }
+  const texture = new THREE.DataTexture(data, RING_PROFILE_SIZE, 1);
+  // Linear filtering, so narrow ringlets stay smooth when magnified
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Shadow caster for a band: shadow maps are all-or-nothing, so a share of the
+ * band's texels matching its transparency is dropped instead. The shadow
+ * filtering blends them into a partial shadow (faint rings cast faint shadows).
+ * The band's map and alpha test are copied over by the renderer.
+ * @param opacity - Band opacity
+ */
+function createRingShadowMaterial(opacity: number): THREE.MeshDistanceMaterial {
+  const material = new THREE.MeshDistanceMaterial();
+  material.onBeforeCompile = shader => {
+    shader.uniforms.uOpacity = { value: opacity };
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform float uOpacity;')
+      .replace(
+        '#include <alphatest_fragment>',
+        `#include <alphatest_fragment>
+  if (rand(gl_FragCoord.xy) > diffuseColor.a * uOpacity) discard;`
+      );
+  };
+  return material;
+}
+
+/**
+ * Creates one band: a flat ring with concentric UV mapping (radial distance → U, angle → V).
+ * @param band - Band settings
+ * @param planetRadius - Scaled radius of the planet
+ * @param map - Band texture
+ * @param segments - Angular segments
+ */
+function createRingBand(band: RingBand, planetRadius: number, map: THREE.Texture, segments: number): THREE.Mesh {
+  const inner = planetRadius * band.inner;
+  const outer = planetRadius * band.outer;
+  const geometry = new THREE.RingGeometry(inner, outer, segments);
+  const pos = geometry.attributes.position;
+  const uv = geometry.attributes.uv;
+  for (let i = 0, l = pos.count; i < l; i++) {
+    const x = pos.getX(i), y = pos.getY(i);
+    const r = Math.hypot(x, y);
+    const a = (Math.atan2(y, x) / (2 * Math.PI) + 0.5) % 1;
+    uv.setXY(i, (r - inner) / (outer - inner), a);
+  }
+  uv.needsUpdate = true;
+  const opacity = band.opacity ?? 1;
+  const material = createBodyMaterial({
+    map,
+    opacity,
+    transparent: true,
+    side: THREE.DoubleSide,
+    // Relative to the opacity, so faint bands are not cut away entirely
+    alphaTest: RING_ALPHA_TEST * opacity,
+    // Overlapping translucent bands must not hide each other
+    depthWrite: false,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.customDistanceMaterial = createRingShadowMaterial(opacity);
+  mesh.rotation.x = Math.PI / 2;
+  return mesh;
+}
+
+/**
+ * Creates a planet's ring system in its equatorial plane, one mesh per band
+ * (named after the band when it has a name). Textured bands are flagged with
+ * `userData.textured` and skipped when there is no ring texture.
+ * @param bands - Ring bands, from the data
+ * @param planetRadius - Scaled radius of the planet
+ * @param ringMap - Body ring texture, for bands without a color
+ * @param segments - Angular segments of each band
+ */
+export function createRingSystem(
+  bands: RingBand[],
+  planetRadius: number,
+  ringMap?: THREE.Texture,
+  segments = DEFAULT_RING_SEGMENTS
+): THREE.Group {
+  const group = new THREE.Group();
+  bands.forEach(band => {
+    const profile = band.color ? createProfileTexture(band.color, band.profile) : undefined;
+    const map = profile ?? ringMap;
+    if (!map) return;
+    const mesh = createRingBand(band, planetRadius, map, segments);
+    if (band.name) mesh.name = band.name;
+    mesh.userData.textured = !profile;
+    // Disposed with the mesh in cleanupThreeScene
+    if (profile) mesh.userData.ownedTextures = [profile];
+    group.add(mesh);
+  });
+  return group;
+}
@@ -0,0 +1,78 @@
+// Scale bar for the overlay: a round distance that fits the view around the camera target
+import * as THREE from 'three'
+import type { DistanceScale } from './orbits'
+
+// =========================
+// Scale bar constants
+// =========================
+const KM_PER_AU = 149597870.7 // One astronomical unit in km
+const KM_PER_MILLION_KM = 1e6 // Converts scene distance derivatives (per million km) to per km
+const SCALE_BAR_MAX_PX = 120 // Longest bar drawn in the overlay
+const AU_LABEL_THRESHOLD = 0.1 // Bars at least this long (in AU) are labelled in AU, shorter ones in km
+const NICE_STEPS = [1, 2, 5] // Mantissas of "round" bar lengths
+const INVERSE_ITERATIONS = 50 // Bisection steps when inverting the distance scale
+const DERIVATIVE_STEP = 1e-3 // Relative step (million km) for the local scale derivative
+
+// =========================
+// Type Definitions
+// =========================
+export interface ScaleBar {
+  widthPx: number
+  label: string
+}
+
+// Largest 1/2/5 × 10^n value not exceeding `max`
+function floorToNiceNumber(max: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(max)))
+  const step = [...NICE_STEPS].reverse().find(s => s * magnitude <= max) ?? NICE_STEPS[0]
+  return step * magnitude
+}
+
+// Heliocentric distance (million km) that the scale maps to the given scene distance
+function invertDistanceScale(distanceScale: DistanceScale, sceneDistance: number): number {
+  let lo = 0
+  let hi = 1
+  while (distanceScale(hi) < sceneDistance) hi *= 2
+  for (let i = 0; i < INVERSE_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2
+    if (distanceScale(mid) < sceneDistance) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+/**
+ * Computes a scale bar for the current view. Distances are only uniform in
+ * linear modes, so the local scale at the camera target's heliocentric
+ * distance is used (exact for linear modes, local for log distances).
+ * @param distanceScale - Heliocentric distance → scene distance mapping in effect
+ * @param camera - Scene camera
+ * @param target - Point the camera looks at (orbit controls target), heliocentric (see toHeliocentric)
+ * @param viewportHeight - Canvas height in pixels
+ * @returns Bar width in pixels and its label, or null if the view is degenerate
+ */
+export function getScaleBar(
+  distanceScale: DistanceScale,
+  camera: THREE.PerspectiveCamera,
+  target: THREE.Vector3,
+  viewportHeight: number
+): ScaleBar | null {
+  const viewDistance = camera.position.distanceTo(target)
+  if (viewDistance === 0) return null
+  const pxPerUnit = viewportHeight / (2 * viewDistance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2))
+
+  // Local scene units per million km at the target's distance from the Sun
+  const d = invertDistanceScale(distanceScale, target.length())
+  const h = Math.max(d * DERIVATIVE_STEP, DERIVATIVE_STEP)
+  const unitsPerMkm = (distanceScale(d + h) - distanceScale(Math.max(0, d - h))) / (d + h - Math.max(0, d - h))
+  const pxPerKm = (pxPerUnit * unitsPerMkm) / KM_PER_MILLION_KM
+  if (!(pxPerKm > 0)) return null
+
+  const maxKm = SCALE_BAR_MAX_PX / pxPerKm
+  if (maxKm / KM_PER_AU >= AU_LABEL_THRESHOLD) {
+    const au = floorToNiceNumber(maxKm / KM_PER_AU)
+    return { widthPx: au * KM_PER_AU * pxPerKm, label: `${au.toLocaleString('en-US')} AU` }
+  }
+  const km = floorToNiceNumber(maxKm)
+  return { widthPx: km * pxPerKm, label: `${km.toLocaleString('en-US')} km` }
+}
@@ -0,0 +1,64 @@
+// Animated blending between scene scales (scaling mode / magnification changes)
+import * as THREE from 'three'
+import type { SceneScale } from './solarSystem'
+
+// =========================
+// Transition constants
+// =========================
+const SCALE_TRANSITION_MS = 1500 // Duration of a scale mode transition
+
+// Blends two scene scales; t = 0 gives `from`, t = 1 gives `to`
+function blendSceneScales(from: SceneScale, to: SceneScale, t: number): SceneScale {
+  return {
+    bodyRadius: (radiusKm: number) => THREE.MathUtils.lerp(from.bodyRadius(radiusKm), to.bodyRadius(radiusKm), t),
+    distance: (millionKm: number) => THREE.MathUtils.lerp(from.distance(millionKm), to.distance(millionKm), t),
+  }
+}
+
+/**
+ * Eases the scene from one scale to another over a fixed duration.
+ * Starting a new transition mid-way continues from the current blend.
+ */
+export class ScaleTransition {
+  private from: SceneScale
+  private to: SceneScale
+  private startMs = 0
+  private animating = false
+  // Scale in effect after the last update
+  current: SceneScale
+
+  constructor(initial: SceneScale) {
+    this.from = initial
+    this.to = initial
+    this.current = initial
+  }
+
+  /**
+   * Starts easing towards a new scale.
+   * @param to - Target scene scale
+   * @param nowMs - Current time (performance.now())
+   */
+  start(to: SceneScale, nowMs = performance.now()) {
+    this.from = this.current
+    this.to = to
+    this.startMs = nowMs
+    this.animating = true
+  }
+
+  /**
+   * Advances the transition.
+   * @param nowMs - Current time (performance.now())
+   * @returns The blended scale while animating (including the final frame), or null when settled
+   */
+  update(nowMs = performance.now()): SceneScale | null {
+    if (!this.animating) return null
+    const t = THREE.MathUtils.clamp((nowMs - this.startMs) / SCALE_TRANSITION_MS, 0, 1)
+    if (t === 1) {
+      this.animating = false
+      this.current = this.to
+    } else {
+      this.current = blendSceneScales(this.from, this.to, THREE.MathUtils.smootherstep(t, 0, 1))
+    }
+    return this.current
+  }
+}
@@ -2,6 +2,22 @@
 import { makeLogScale } from '../utils/math'
 import { RADIUS_MIN, RADIUS_MAX } from './visualConstants'
 
+// --- CONSTANTS ---
+const SATELLITE_MIN_GAP = 1.3 // Closest moon orbit radius, in parent radii (keeps moons clear of the parent)
+const SATELLITE_SPREAD = 0.8 // Parent radii added per decade of (orbit radius / parent radius)
+const KM_PER_MILLION_KM = 1e6 // Converts orbital distances (million km) to km
+const LOG_DISTANCE_REFERENCE = 10 // Million km where log distances start compressing (keeps inner orbits apart from the Sun)
+const TRUE_SCALE_MAX_RADIUS_FRACTION = 0.5 // Magnified radii are capped at this fraction of the innermost orbit
+export const DEFAULT_TRUE_SCALE_MAGNIFICATION = 200 // Body size magnification in true scale (real planets are sub-pixel)
+
+// Selectable scaling modes, keyed by display label
+export type ScaleMode = 'hybrid' | 'log' | 'true'
+export const SCALE_MODES: Record<string, ScaleMode> = {
+  'Hybrid': 'hybrid', // Log radius, linear distance
+  'Log / Log': 'log', // Log radius, log distance
+  'True Scale': 'true', // Linear radius and distance in the same units, radii magnified
+}
+
 interface Body {
   radius_km: number
   distance_from_sun_million_km: number
@@ -12,7 +28,20 @@ interface SolarParams {
   planets: Body[]
 }
 
-export function getSolarSystemScales(params: SolarParams) {
+/**
+ * Scaling functions for a mode.
+ * - hybrid: log radius, linear distance
+ * - log: log radius, log distance
+ * - true: radius and distance both linear in the same units, radii multiplied by `magnification`
+ * @param params - Solar system parameters (sun and planets set the ranges)
+ * @param mode - Scaling mode
+ * @param magnification - Body size multiplier, used in true scale only
+ */
+export function getSolarSystemScales(
+  params: SolarParams,
+  mode: ScaleMode = 'hybrid',
+  magnification = DEFAULT_TRUE_SCALE_MAGNIFICATION
+) {
   const sun = params.sun
   const planets = params.planets
   
@@ -20,18 +49,50 @@ export function getSolarSystemScales(params: SolarParams) {
   const minRadius = Math.min(sun.radius_km, ...planets.map(p => p.radius_km))
   const maxRadius = Math.max(sun.radius_km, ...planets.map(p => p.radius_km))
   
-  // Calculate maximum planet distance for scaling orbits
+  // Calculate minimum and maximum planet distance for scaling orbits
+  const minDist = Math.min(...planets.map(p => p.distance_from_sun_million_km))
   const maxDist = Math.max(...planets.map(p => p.distance_from_sun_million_km))
 
   // Create scaling functions
-  const radius = makeLogScale(minRadius, maxRadius)
+  const logRadius = makeLogScale(minRadius, maxRadius)
   // Linear scaling for distances: relative to maximum distance
-  const distance = (value: number, span = 1, offset = 0) => offset + (value / maxDist) * span
+  const linearDistance = (value: number, span = 1, offset = 0) => offset + (value / maxDist) * span
+  // Log scaling for distances: shifted by a reference distance so the Sun (0 km) maps to the offset
+  const logDistance = (value: number, span = 1, offset = 0) =>
+    offset + (Math.log10(1 + value / LOG_DISTANCE_REFERENCE) / Math.log10(1 + maxDist / LOG_DISTANCE_REFERENCE)) * span
+
+  const distance = mode === 'log' ? logDistance : linearDistance
+  // Scene radius of a body; the distance span is needed in true scale, where sizes share distance units
+  const bodyRadius = (radiusKm: number, distanceSpan: number) => {
+    if (mode !== 'true') return RADIUS_MIN + logRadius(radiusKm, RADIUS_MAX - RADIUS_MIN)
+    const maxRadiusScene = linearDistance(minDist, distanceSpan) * TRUE_SCALE_MAX_RADIUS_FRACTION
+    return Math.min(maxRadiusScene, linearDistance(radiusKm / KM_PER_MILLION_KM, distanceSpan) * magnification)
+  }
 
   return {
-    radius,
+    mode,
+    radius: logRadius,
     distance,
+    bodyRadius,
     RADIUS_MIN,
     RADIUS_MAX,
   }
 }
+
+export type SolarSystemScales = ReturnType<typeof getSolarSystemScales>
+
+
+/**
+ * Distance scale for moons around a parent body. Real moon orbits are far too
+ * small (or too large) next to scaled planet radii, so the ratio to the parent's
+ * real radius is compressed logarithmically and expressed in scene parent radii.
+ * @param parentRadiusKm - Real radius of the parent body
+ * @param parentSceneRadius - Scaled radius of the parent body in scene units
+ * @returns Function mapping a moon's distance (million km) to scene units
+ */
+export function getSatelliteDistanceScale(parentRadiusKm: number, parentSceneRadius: number) {
+  return (millionKm: number) => {
+    const ratio = Math.max(1, (millionKm * KM_PER_MILLION_KM) / parentRadiusKm)
+    return parentSceneRadius * (SATELLITE_MIN_GAP + SATELLITE_SPREAD * Math.log10(ratio))
+  }
+}
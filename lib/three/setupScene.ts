@@ -1,10 +1,16 @@
 // Three.js scene setup helpers
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { assetLoader } from './assetLoader'
+import { getQualitySettings, resolveTexturePath } from './quality'
 
 // --- CONSTANTS ---
 export const CAMERA_FOV = 75
 export const DEFAULT_CAMERA_Z = 50
+// The logarithmic depth buffer keeps depth precision over this whole range
+const CAMERA_NEAR = 1e-6 // Close enough to stand on a small moon in true scale
+const CAMERA_FAR = 1e6 // Far beyond the heliopause in every scaling mode
+export const SCENE_EXTENT = 5000 // Far enough for the outer dwarf planets (Eris near aphelion) and the Kuiper belt
 
 // === Camera Angle Constants ===
 export const INITIAL_CAMERA_RADIUS = 75 // Distance from origin
@@ -18,9 +24,12 @@ export function createScene() {
 
 // Create and return a WebGLRenderer
 export function createRenderer(canvas: HTMLCanvasElement, width: number, height: number) {
-  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true })
+  // Logarithmic depth: no z-fighting from surface close-ups to the whole system
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, logarithmicDepthBuffer: true })
   renderer.setSize(width, height)
-  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, getQualitySettings().maxPixelRatio))
+  // Sun light shadows (e.g. Saturn's rings); only lights with castShadow cost extra passes
+  renderer.shadowMap.enabled = true
   return renderer
 }
 
@@ -31,33 +40,17 @@ export function createControls(camera: THREE.Camera, domElement: HTMLElement) {
   return controls
 }
 
-// Set an equirectangular panoramic skybox background
-export function setEquirectangularSkybox(
-  scene: THREE.Scene,
-  texturePath: string,
-  onProgress?: (progress: number) => void,
-  onLoad?: () => void
-) {
-  const loader = new THREE.TextureLoader();
-  loader.load(
-    texturePath,
-    (texture) => {
-      texture.mapping = THREE.EquirectangularReflectionMapping;
-      texture.colorSpace = THREE.SRGBColorSpace;
-      scene.background = texture;
-      if (onLoad) onLoad();
-    },
-    (xhr) => {
-      if (onProgress && xhr.lengthComputable) {
-        const percent = (xhr.loaded / xhr.total) * 100;
-        onProgress(percent);
-      }
-    }
-  );
+// Set an equirectangular panoramic skybox background (a critical asset: see AssetLoader),
+// in the skybox resolution of the quality tier
+export function setEquirectangularSkybox(scene: THREE.Scene, texturePath: string) {
+  const texture = assetLoader.loadTexture(resolveTexturePath(texturePath, getQualitySettings().skyboxSize), true, undefined, true);
+  texture.mapping = THREE.EquirectangularReflectionMapping;
+  scene.background = texture;
+  return texture;
 }
 
 export function createSolarCamera(width: number, height: number) {
-  const camera = new THREE.PerspectiveCamera(CAMERA_FOV, width / height, 0.1, 1000)
+  const camera = new THREE.PerspectiveCamera(CAMERA_FOV, width / height, CAMERA_NEAR, CAMERA_FAR)
   // Set camera position using spherical coordinates for easy angle tweaking
   const spherical = new THREE.Spherical(
     INITIAL_CAMERA_RADIUS,
@@ -0,0 +1,162 @@
+/**
+ * SimulationClock: the single source of simulated time for the solar system
+ *
+ * Shared by the animation loop (planet positions and spin), the time controls
+ * overlay, the GUI and the voice assistant.
+ *
+ * Events emitted:
+ * - 'change': When play state, direction, rate or date is changed (not on every tick)
+ */
+import { EventEmitter } from 'events'
+import { getDaysSinceJ2000, parseUtcDate, MS_PER_DAY } from './ephemeris'
+
+// =========================
+// Clock constants
+// =========================
+const MS_PER_SECOND = 1000 // Converts simulated seconds into timestamp milliseconds
+const SECONDS_PER_HOUR = 3600 // Simulated seconds in one hour
+const SECONDS_PER_DAY = 86400 // Simulated seconds in one day
+const SECONDS_PER_YEAR = 31557600 // Simulated seconds in one Julian year (365.25 days)
+
+// Preset rates in simulated seconds per real second, keyed by display label
+export const TIME_RATE_PRESETS: Record<string, number> = {
+  'Real-time': 1,
+  '1 hour/s': SECONDS_PER_HOUR,
+  '1 day/s': SECONDS_PER_DAY,
+  '1 week/s': SECONDS_PER_DAY * 7,
+  '1 month/s': SECONDS_PER_YEAR / 12,
+  '1 year/s': SECONDS_PER_YEAR,
+}
+export const DEFAULT_TIME_RATE = TIME_RATE_PRESETS['1 day/s'] // Starting rate: fast enough to see orbits and spin
+
+// =========================
+// Type Definitions
+// =========================
+
+// Calendar unit used by step forward/back
+export type TimeStepUnit = 'day' | 'month' | 'year'
+
+// Serializable command, used by voice tools and other remote controls
+export interface TimeCommand {
+  action: 'play' | 'pause' | 'reverse' | 'forward' | 'step' | 'set_rate' | 'jump_to_date'
+  unit?: TimeStepUnit
+  count?: number // Steps to move (negative steps back)
+  rate?: string // Preset label from TIME_RATE_PRESETS
+  date?: string // 'YYYY-MM-DD' (UTC)
+}
+
+/**
+ * Simulated time anchored to a real UTC date, with play/pause, reverse,
+ * preset rates, calendar steps and jump-to-date.
+ */
+export class SimulationClock extends EventEmitter {
+  // Current simulated UTC time in milliseconds since the Unix epoch
+  private timeMs: number
+  // Simulated seconds per real second (always positive; see `reversed`)
+  private rateValue: number
+  private pausedValue = false
+  private reversedValue = false
+
+  /**
+   * Creates a clock at the given date.
+   * @param startTimeMs - Starting UTC time (defaults to now)
+   * @param rate - Simulated seconds per real second
+   */
+  constructor(startTimeMs = Date.now(), rate = DEFAULT_TIME_RATE) {
+    super()
+    this.timeMs = startTimeMs
+    this.rateValue = rate
+  }
+
+  get time() { return this.timeMs }
+  get rate() { return this.rateValue }
+  get paused() { return this.pausedValue }
+  get reversed() { return this.reversedValue }
+  // Days since J2000, the time argument of the ephemeris
+  get daysSinceJ2000() { return getDaysSinceJ2000(this.timeMs) }
+
+  /**
+   * Advances simulated time by a frame.
+   * @param realDeltaSec - Real (wall clock) seconds since the last frame
+   * @returns Simulated seconds elapsed (0 when paused, negative when reversed)
+   */
+  tick(realDeltaSec: number): number {
+    if (this.pausedValue) return 0
+    const deltaSec = realDeltaSec * this.rateValue * (this.reversedValue ? -1 : 1)
+    this.timeMs += deltaSec * MS_PER_SECOND
+    return deltaSec
+  }
+
+  play() { this.update(() => { this.pausedValue = false }) }
+  pause() { this.update(() => { this.pausedValue = true }) }
+  togglePause() { this.update(() => { this.pausedValue = !this.pausedValue }) }
+  setReversed(reversed: boolean) { this.update(() => { this.reversedValue = reversed }) }
+  setRate(rate: number) { this.update(() => { this.rateValue = Math.abs(rate) }) }
+  setTime(timeMs: number) { this.update(() => { this.timeMs = timeMs }) }
+
+  /**
+   * Moves the date by whole calendar units (UTC), keeping the time of day.
+   * @param unit - Day, month or year
+   * @param count - Number of units (negative steps back)
+   */
+  step(unit: TimeStepUnit, count = 1) {
+    this.update(() => {
+      if (unit === 'day') {
+        this.timeMs += count * MS_PER_DAY
+        return
+      }
+      const date = new Date(this.timeMs)
+      if (unit === 'month') date.setUTCMonth(date.getUTCMonth() + count)
+      else date.setUTCFullYear(date.getUTCFullYear() + count)
+      this.timeMs = date.getTime()
+    })
+  }
+
+  /**
+   * Applies a serializable time command.
+   * @returns A short description of the result, or an error message
+   */
+  applyCommand(command: TimeCommand): { result?: string; error?: string } {
+    switch (command.action) {
+      case 'play':
+        this.play()
+        return { result: 'Time running' }
+      case 'pause':
+        this.pause()
+        return { result: 'Time paused' }
+      case 'reverse':
+        this.setReversed(true)
+        this.play()
+        return { result: 'Time running backwards' }
+      case 'forward':
+        this.setReversed(false)
+        this.play()
+        return { result: 'Time running forwards' }
+      case 'step': {
+        const unit = command.unit ?? 'day'
+        this.step(unit, command.count ?? 1)
+        return { result: `Stepped ${command.count ?? 1} ${unit}(s)` }
+      }
+      case 'set_rate': {
+        const rate = command.rate ? TIME_RATE_PRESETS[command.rate] : undefined
+        if (rate === undefined) return { error: 'Unknown time rate' }
+        this.setRate(rate)
+        return { result: `Time rate set to ${command.rate}` }
+      }
+      case 'jump_to_date': {
+        const time = command.date ? parseUtcDate(command.date) : null
+        if (time === null) return { error: 'Invalid date' }
+        this.setTime(time)
+        return { result: `Jumped to ${command.date}` }
+      }
+      default:
+        return { error: 'Unknown time action' }
+    }
+  }
+
+  // Applies a state mutation and notifies listeners
+  private update(mutate: () => void) {
+    mutate()
+    this.emit('change')
+  }
+}
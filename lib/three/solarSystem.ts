@@ -3,9 +3,17 @@
 // =========================
 import * as THREE from 'three'
 import { temperatureToColor } from './temperatureToColor'
-import { RADIUS_MIN, RADIUS_MAX } from './visualConstants'
-import { createSaturnRings } from './saturnRings'
-import { getPlanetTextures } from './textureLoader'
+import { createRingSystem, type RingBand } from './ringSystem'
+import type { BodyMaterialDescriptor } from './textureLoader'
+import { materialRegistry } from './materialRegistry'
+import { getQualitySettings } from './quality'
+import { getOrbitalElements, toScenePosition, createOrbitVertices, type OrbitalElements, type DistanceScale } from './orbits'
+import { getElementsAtDate, getPositionAtDate } from './ephemeris'
+import { getSatelliteDistanceScale, type SolarSystemScales } from './scaling'
+import { createCometTail } from './cometTail'
+import { createBodyMaterial, enableShadows, applySurfaceMaps, removeSurfaceMap } from './lighting'
+import { createAtmosphere, createClouds, type AtmosphereParams, type CloudParams } from './atmosphere'
+import type { LabelCategory } from './labels'
 
 // =========================
 // Visual scaling/layout constants
@@ -15,21 +23,21 @@ export const PLANET_SPREAD = 360; // Distance factor between planet orbits (affe
 // =========================
 // Solar system mesh/visual constants
 // =========================
-const SUN_SEGMENTS = 64; // Number of segments for the sun's sphere geometry (smoothness)
-const PLANET_SEGMENTS = 64; // Number of segments for planet sphere geometry (smoothness)
-const ORBIT_SEGMENTS = 128; // Number of segments for orbit line geometry (smoothness of orbit circle)
+const SMALL_BODY_RADIUS_MIN = 0.1; // Smallest visual radius for moons and dwarf planets (they fall below the log scale)
+const MOON_ORBIT_OPACITY = 0.12; // Moon orbit lines are fainter than planet orbits
 const ORBIT_COLOR = 'white'; // Color of the orbit lines (white)
 const ORBIT_OPACITY = 0.2; // Opacity of the orbit lines (semi-transparent)
 const ORBIT_TRANSPARENT = true; // Whether orbit lines are rendered as transparent
 const AXIS_COLOR = 'white'; // Color for rotation axis lines (green)
 const AXIS_OPACITY = 0.3; // Opacity for axis lines (more transparent)
 const AXIS_TRANSPARENT = true; // Axis lines rendered as transparent
+const SUN_FALLBACK_COLOR = 0xffff00; // Sun color without its texture
 
 // =========================
 // Type Definitions
 // =========================
 
-// Represents a celestial body (Sun or planet)
+// Represents a celestial body (Sun, planet, dwarf planet or comet)
 export interface Body {
   name: string
   radius_km: number
@@ -38,18 +46,47 @@ export interface Body {
   orbital_speed_kms: number
   temperature_k: number
   axis_angle_deg?: number
+  orbit?: OrbitalElements
+  moons?: Moon[]
+  material?: BodyMaterialDescriptor
+  atmosphere?: AtmosphereParams
+  clouds?: CloudParams
+  rings?: RingBand[]
+}
+
+// Represents a natural satellite orbiting a planet
+export interface Moon {
+  name: string
+  radius_km: number
+  rotation_speed_kmh: number
+  temperature_k: number
+  axis_angle_deg?: number
+  // Orbital elements relative to the parent (in million km / days)
+  orbit: OrbitalElements
+  // Plane the elements are measured from: the parent's equator (default) or the ecliptic
+  orbit_reference?: string
+  material?: BodyMaterialDescriptor
+  atmosphere?: AtmosphereParams
+  clouds?: CloudParams
 }
 
 // Parameters for the solar system
 export interface SolarParams {
   sun: Body
   planets: Body[]
+  dwarf_planets?: Body[]
+  comets?: Body[]
 }
 
 // Scaling functions and constants
-interface Scales {
-  radius: (value: number, span?: number, offset?: number) => number
-  distance: (value: number, span?: number, offset?: number) => number
+type Scales = SolarSystemScales
+
+// Resolved scene mapping for one scaling mode and planet spread
+export interface SceneScale {
+  // Real radius (km) → scene radius
+  bodyRadius: (radiusKm: number) => number
+  // Heliocentric distance (million km) → scene distance
+  distance: DistanceScale
 }
 
 // =========================
@@ -57,21 +94,235 @@ interface Scales {
 // =========================
 
 /**
- * Creates THREE.Mesh objects for the Sun and all planets.
+ * Creates a faint line along a body's rotation axis.
+ * @param name - Body name (the line is named `${name}_axis`)
+ * @param radius - Scene radius of the body
+ */
+function createAxisLine(name: string, radius: number): THREE.Line {
+  const axisLength = radius * 2
+  const axisMaterial = new THREE.LineBasicMaterial({ color: AXIS_COLOR, opacity: AXIS_OPACITY, transparent: AXIS_TRANSPARENT })
+  const axisGeometry = new THREE.BufferGeometry().setFromPoints([
+    new THREE.Vector3(0, -axisLength, 0),
+    new THREE.Vector3(0, axisLength, 0)
+  ])
+  const axisLine = new THREE.Line(axisGeometry, axisMaterial)
+  axisLine.name = `${name}_axis`
+  return axisLine
+}
+
+/**
+ * Creates a body's surface from its registered material (see MaterialRegistry):
+ * a sphere, grouped with its ring system when the data lists ring bands.
+ * Untextured bodies, and bodies whose diffuse texture fails to load, are drawn
+ * as a wireframe in the fallback color.
+ * @param body - Body parameters (name is the material id)
+ * @param geometry - Sphere geometry of the body
+ * @param radius - Scene radius of the body
+ * @param fallbackColor - Wireframe color for untextured bodies
+ * @param sun - Sun object (for night-side emission)
+ */
+function createBodyObject(body: Body | Moon, geometry: THREE.BufferGeometry, radius: number, fallbackColor: THREE.Color, sun: THREE.Object3D): THREE.Object3D {
+  const textures = materialRegistry.acquire(body.name)
+  const material = textures.map
+    ? createBodyMaterial({ map: textures.map })
+    : createBodyMaterial({ color: fallbackColor, wireframe: true })
+  const mesh = new THREE.Mesh(geometry, material)
+  // Released in cleanupThreeScene
+  mesh.userData.materialId = body.name
+  applySurfaceMaps(mesh, textures, sun, materialRegistry.getDescriptor(body.name))
+  const bands = 'rings' in body ? body.rings : undefined
+  if (!bands?.length) {
+    materialRegistry.onMissing(body.name, slot => removeSurfaceMap(mesh, slot, fallbackColor))
+    return mesh
+  }
+
+  // Body + rings as a Group
+  const group = new THREE.Group()
+  group.name = body.name
+  mesh.name = `${body.name}_body`
+  const rings = createRingSystem(bands, radius, textures.ringMap)
+  rings.name = `${body.name}_rings`
+  group.add(mesh, rings)
+  materialRegistry.onMissing(body.name, slot => {
+    if (slot === 'ringMap') {
+      // Procedural bands need no texture
+      rings.children.forEach(band => { if (band.userData.textured) band.visible = false })
+    } else {
+      removeSurfaceMap(mesh, slot, fallbackColor)
+    }
+  })
+  return group
+}
+
+/**
+ * Adds the atmosphere and cloud layers defined in the data around a body.
+ * A plain mesh is wrapped in a group and becomes its `${name}_body` child,
+ * so the surface spins independently of the clouds (like Saturn's body and rings).
+ * @param object - Body mesh, or a group that already has a `_body` child
+ * @param body - Body parameters (name, atmosphere, clouds)
+ * @param radius - Scene radius of the body
+ * @param sun - Sun object (lights the atmosphere)
+ */
+function addAtmosphereLayers(object: THREE.Object3D, body: Body | Moon, radius: number, sun: THREE.Object3D): THREE.Object3D {
+  if (!body.atmosphere && !body.clouds) return object
+  let group = object
+  if (!(object instanceof THREE.Group)) {
+    group = new THREE.Group()
+    object.name = `${body.name}_body`
+    group.add(object)
+  }
+  group.name = body.name
+  if (body.clouds) group.add(createClouds(body.name, radius, body.clouds))
+  if (body.atmosphere) group.add(createAtmosphere(body.name, radius, body.atmosphere, sun))
+  return group
+}
+
+/**
+ * Scene radius of the sphere used to frame a body with the camera.
+ * Planets built as groups (e.g. Saturn with rings) use their `_body` child;
+ * other shapes (e.g. spacecraft markers) use their bounding sphere.
+ * @param mesh - Object created by createSolarSystemObjects
+ */
+export function getBodySceneRadius(mesh: THREE.Object3D): number {
+  const body = mesh instanceof THREE.Group ? mesh.getObjectByName(`${mesh.name}_body`) : mesh
+  const geometry = (body as THREE.Mesh | undefined)?.geometry
+  if (!geometry) return 1
+  if (!geometry.boundingSphere) geometry.computeBoundingSphere()
+  return geometry.boundingSphere!.radius * mesh.scale.x
+}
+
+/**
+ * Bodies orbiting the Sun directly: planets, dwarf planets and comets.
+ */
+export function getOrbitingBodies(params: SolarParams): Body[] {
+  return [...params.planets, ...(params.dwarf_planets ?? []), ...(params.comets ?? [])]
+}
+
+/**
+ * Label style of a body orbiting the Sun (see LabelManager).
+ * @param params - Solar system parameters
+ * @param body - Planet, dwarf planet or comet
+ */
+function getLabelCategory(params: SolarParams, body: Body): LabelCategory {
+  if (params.planets.includes(body)) return 'planet'
+  return params.comets?.includes(body) ? 'comet' : 'dwarfPlanet'
+}
+
+/**
+ * Resolves the scene mapping (body radii and heliocentric distances) for the
+ * given scales and planet spread. Meshes remember the radius they were built
+ * with, so another SceneScale can be applied later (see applySceneScale).
  * @param params - Solar system parameters (sun and planets)
  * @param scales - Scaling functions and constants
  * @param planetSpread - Spread factor for planet distances
- * @returns Array of THREE.Mesh objects (Sun + planets)
  */
-export function createSolarSystemObjects(
+export function getSceneScale(params: SolarParams, scales: Scales, planetSpread: number): SceneScale {
+  return {
+    bodyRadius: (radiusKm: number) => Math.max(SMALL_BODY_RADIUS_MIN, scales.bodyRadius(radiusKm, planetSpread)),
+    distance: getOrbitDistanceScale(params, scales, planetSpread),
+  }
+}
+
+/**
+ * Creates the orbit line and mesh for a moon. The orbit line is positioned on
+ * the parent each frame and oriented to the moon's reference plane; moon
+ * positions are computed in that same local frame (see updateSolarSystem).
+ * @param moon - Moon parameters
+ * @param parent - Parent planet parameters
+ * @param parentMesh - Parent planet object (already positioned)
+ * @param sceneScale - Scene mapping for body radii
+ * @param sun - Sun object (lights atmosphere layers)
+ * @param daysSinceJ2000 - Simulation date the moon is initially placed for
+ * @param tempRange - Temperature range used to color untextured bodies
+ * @returns [orbit line, moon mesh]
+ */
+function createMoonObjects(
+  moon: Moon,
+  parent: Body,
+  parentMesh: THREE.Object3D,
+  sceneScale: SceneScale,
+  sun: THREE.Object3D,
+  daysSinceJ2000: number,
+  tempRange: { min: number; max: number }
+): THREE.Object3D[] {
+  const parentRadius = sceneScale.bodyRadius(parent.radius_km)
+  const radius = sceneScale.bodyRadius(moon.radius_km)
+  const distanceScale = getSatelliteDistanceScale(parent.radius_km, parentRadius)
+  const { orbitSegments, moonSegments } = getQualitySettings()
+
+  // Orbit line in the parent's frame: equatorial orbits follow the parent's axial tilt
+  const orbitGeometry = new THREE.BufferGeometry()
+  const orbitVertices = createOrbitVertices(getElementsAtDate(moon.orbit, daysSinceJ2000), distanceScale, orbitSegments)
+  orbitGeometry.setAttribute('position', new THREE.Float32BufferAttribute(orbitVertices, 3))
+  const orbitMaterial = new THREE.LineBasicMaterial({ color: ORBIT_COLOR, opacity: MOON_ORBIT_OPACITY, transparent: ORBIT_TRANSPARENT })
+  const orbit = new THREE.Line(orbitGeometry, orbitMaterial)
+  orbit.name = `${moon.name}_orbit`
+  orbit.position.copy(parentMesh.position)
+  if (moon.orbit_reference !== 'ecliptic') {
+    orbit.rotateX(THREE.MathUtils.degToRad(parent.axis_angle_deg ?? 0))
+  }
+  // Parent scene radius, needed to rebuild the moon distance scale each frame
+  orbit.userData.parentSceneRadius = parentRadius
+
+  // Moon body: colored by temperature like other bodies without textures
+  const color = temperatureToColor(moon.temperature_k, tempRange.min, tempRange.max)
+  const geometry = new THREE.SphereGeometry(radius, moonSegments, moonSegments)
+  const mesh = addAtmosphereLayers(createBodyObject(moon, geometry, radius, color, sun), moon, radius, sun)
+  mesh.name = moon.name
+  enableShadows(mesh)
+  const offset = toScenePosition(getPositionAtDate(moon.orbit, daysSinceJ2000), distanceScale)
+  mesh.position.copy(orbit.position).add(offset.applyQuaternion(orbit.quaternion))
+  mesh.rotateX(THREE.MathUtils.degToRad(moon.axis_angle_deg ?? 0))
+  mesh.add(createAxisLine(moon.name, radius))
+  // Tag for CSS2D label and hierarchy lookups (handled externally)
+  mesh.userData.baseRadius = radius
+  mesh.userData.labelOffset = radius * 1.2
+  mesh.userData.labelText = moon.name
+  mesh.userData.labelCategory = 'moon'
+  mesh.userData.parentName = parent.name
+
+  return [orbit, mesh]
+}
+
+
+/**
+ * Builds the heliocentric distance → scene distance mapping shared by
+ * orbit lines and the per-frame planet positions.
+ * @param params - Solar system parameters (sun and planets)
+ * @param scales - Scaling functions and constants
+ * @param planetSpread - Spread factor for planet distances
+ */
+export function getOrbitDistanceScale(
   params: SolarParams,
   scales: Scales,
   planetSpread: number
+): DistanceScale {
+  // dynamic offset = sun radius so planets clear the sun (true scale keeps real distances instead)
+  const offset = scales.mode === 'true' ? 0 : scales.bodyRadius(params.sun.radius_km, planetSpread)
+  return (millionKm: number) => scales.distance(millionKm, planetSpread, offset)
+}
+
+/**
+ * Creates THREE.Mesh objects for the Sun, all planets, dwarf planets, comets and moons.
+ * @param params - Solar system parameters (sun, planets, dwarf planets and comets)
+ * @param scales - Scaling functions and constants
+ * @param planetSpread - Spread factor for planet distances
+ * @param daysSinceJ2000 - Simulation date the planets are initially placed for
+ * @returns Array of THREE.Mesh objects (Sun + planets + dwarf planets + comets with tails + moons)
+ */
+export function createSolarSystemObjects(
+  params: SolarParams,
+  scales: Scales,
+  planetSpread: number,
+  daysSinceJ2000 = 0
 ): THREE.Object3D[] {
   const meshes: THREE.Object3D[] = []
+  // Sphere and orbit detail of the current quality tier
+  const quality = getQualitySettings()
 
-  // Get textures (client-only)
-  const { sunTexture, mercuryTexture, venusTexture, earthTexture, marsTexture, jupiterTexture, saturnTexture, uranusTexture, neptuneTexture, saturnRingTexture } = getPlanetTextures();
+  // Declare every body's material; textures load when a body is created
+  const bodies: (Body | Moon)[] = [params.sun, ...getOrbitingBodies(params), ...params.planets.flatMap(p => p.moons ?? [])]
+  bodies.forEach(body => materialRegistry.register(body.name, body.material))
 
   // Find min/max temperature for planets only
   const planetTemps = params.planets.map(p => p.temperature_k)
@@ -79,119 +330,124 @@ export function createSolarSystemObjects(
   const maxPlanetTemp = Math.max(...planetTemps)
 
   // --- Sun ---
-  const sunRadius = RADIUS_MIN + scales.radius(params.sun.radius_km, RADIUS_MAX - RADIUS_MIN)
-  const sunGeometry = new THREE.SphereGeometry(sunRadius, SUN_SEGMENTS, SUN_SEGMENTS)
+  const sceneScale = getSceneScale(params, scales, planetSpread)
+  const sunRadius = sceneScale.bodyRadius(params.sun.radius_km)
+  const distanceScale = sceneScale.distance
+  const sunGeometry = new THREE.SphereGeometry(sunRadius, quality.sunSegments, quality.sunSegments)
   // Sun: always yellow (or use its own temp, but it's always hottest)
-  const sunMaterial = sunTexture ? new THREE.MeshBasicMaterial({ map: sunTexture }) : new THREE.MeshBasicMaterial({ color: 0xffff00 });
+  const sunTexture = materialRegistry.acquire(params.sun.name).map
+  const sunMaterial = sunTexture ? new THREE.MeshBasicMaterial({ map: sunTexture }) : new THREE.MeshBasicMaterial({ color: SUN_FALLBACK_COLOR });
+  materialRegistry.onMissing(params.sun.name, slot => {
+    if (slot !== 'map') return
+    sunMaterial.map = null
+    sunMaterial.color.set(SUN_FALLBACK_COLOR)
+    sunMaterial.needsUpdate = true
+  })
   const sunMesh = new THREE.Mesh(sunGeometry, sunMaterial)
+  sunMesh.userData.materialId = params.sun.name
   sunMesh.position.set(0, 0, 0)
   sunMesh.name = params.sun.name
   // Tilt the sun around its local X-axis
   const sunTiltRad = THREE.MathUtils.degToRad(params.sun.axis_angle_deg ?? 0)
   sunMesh.rotateX(sunTiltRad)
   // Axis line for Sun's rotation axis
-  const sunAxisLength = sunRadius * 2
-  const sunAxisMaterial = new THREE.LineBasicMaterial({ color: AXIS_COLOR, opacity: AXIS_OPACITY, transparent: AXIS_TRANSPARENT })
-  const sunAxisGeometry = new THREE.BufferGeometry().setFromPoints([
-    new THREE.Vector3(0, -sunAxisLength, 0),
-    new THREE.Vector3(0, sunAxisLength, 0)
-  ])
-  const sunAxisLine = new THREE.Line(sunAxisGeometry, sunAxisMaterial)
-  sunAxisLine.name = `${params.sun.name}_axis`
-  sunMesh.add(sunAxisLine)
+  sunMesh.add(createAxisLine(params.sun.name, sunRadius))
+  sunMesh.userData.baseRadius = sunRadius
   meshes.push(sunMesh)
 
-  // --- Planets & Orbits ---
-  const planetCount = params.planets.length
-  params.planets.forEach((planet, i) => {
-    const radius = RADIUS_MIN + scales.radius(planet.radius_km, RADIUS_MAX - RADIUS_MIN)
-    // dynamic offset = sun radius so planets clear the sun
-    const distance = scales.distance(planet.distance_from_sun_million_km, planetSpread, sunRadius)
+  // --- Planets, Dwarf Planets, Comets & Orbits ---
+  getOrbitingBodies(params).forEach(planet => {
+    const radius = sceneScale.bodyRadius(planet.radius_km)
+    const elements = getOrbitalElements(planet)
+    if (!elements) return
 
-    // Orbit (XZ plane)
+    // Orbit ellipse from the planet's orbital elements
     const orbitGeometry = new THREE.BufferGeometry()
-    const orbitVertices = []
-    for (let j = 0; j <= ORBIT_SEGMENTS; j++) {
-      const theta = (j / ORBIT_SEGMENTS) * Math.PI * 2
-      orbitVertices.push(
-        Math.cos(theta) * distance,
-        0,
-        Math.sin(theta) * distance
-      )
-    }
-    
+    const orbitVertices = createOrbitVertices(getElementsAtDate(elements, daysSinceJ2000), distanceScale, quality.orbitSegments)
     orbitGeometry.setAttribute('position', new THREE.Float32BufferAttribute(orbitVertices, 3))
     const orbitMaterial = new THREE.LineBasicMaterial({ color: ORBIT_COLOR, opacity: ORBIT_OPACITY, transparent: ORBIT_TRANSPARENT })
     const orbit = new THREE.Line(orbitGeometry, orbitMaterial)
     orbit.name = `${planet.name}_orbit`
     meshes.push(orbit)
 
-    // Planet position: evenly spaced angle
-    const angle = (i / planetCount) * Math.PI * 2
-    const x = Math.cos(angle) * distance
-    const z = Math.sin(angle) * distance
-    const geometry = new THREE.SphereGeometry(radius, PLANET_SEGMENTS, PLANET_SEGMENTS)
+    // Planet position: real location at the simulation date, on the same path as the orbit line
+    const position = toScenePosition(getPositionAtDate(elements, daysSinceJ2000), distanceScale)
+    const geometry = new THREE.SphereGeometry(radius, quality.planetSegments, quality.planetSegments)
     
-    let material: THREE.Material
-    let planetSpecificMesh: THREE.Object3D | undefined // Used for planets with special structures like Saturn
-
-    if (planet.name.toLowerCase() === 'mercury' && mercuryTexture) {
-      material = new THREE.MeshBasicMaterial({ map: mercuryTexture })
-    } else if (planet.name.toLowerCase() === 'venus' && venusTexture) {
-      material = new THREE.MeshBasicMaterial({ map: venusTexture })
-    } else if (planet.name.toLowerCase() === 'earth' && earthTexture) {
-      material = new THREE.MeshBasicMaterial({ map: earthTexture })
-    } else if (planet.name.toLowerCase() === 'mars' && marsTexture) {
-      material = new THREE.MeshBasicMaterial({ map: marsTexture })
-    } else if (planet.name.toLowerCase() === 'jupiter' && jupiterTexture) {
-      material = new THREE.MeshBasicMaterial({ map: jupiterTexture })
-    } else if (planet.name.toLowerCase() === 'saturn' && saturnTexture) {
-      // Build Saturn as a Group: body + rings
-      const group = new THREE.Group()
-      group.name = planet.name
-      material = new THREE.MeshBasicMaterial({ map: saturnTexture })
-      // Body mesh
-      const bodyMesh = new THREE.Mesh(geometry, material)
-      bodyMesh.name = `${planet.name}_body`
-      group.add(bodyMesh)
-      // Rings
-      if (saturnRingTexture) {
-        const ring = createSaturnRings(radius, saturnRingTexture)
-        ring.name = `${planet.name}_rings`
-        group.add(ring)
-      }
-      planetSpecificMesh = group
-    } else if (planet.name.toLowerCase() === 'uranus' && uranusTexture) {
-      material = new THREE.MeshBasicMaterial({ map: uranusTexture })
-    } else if (planet.name.toLowerCase() === 'neptune' && neptuneTexture) {
-      material = new THREE.MeshBasicMaterial({ map: neptuneTexture })
-    } else {
-      // Color by planet temperature (planet range only)
-      const color = temperatureToColor(planet.temperature_k, minPlanetTemp, maxPlanetTemp)
-      material = new THREE.MeshBasicMaterial({ color, wireframe: true })
-    }
-
-    const mesh = planetSpecificMesh || new THREE.Mesh(geometry, material!);
-    mesh.position.set(x, 0, z)
+    // Surface from the body's registered material (temperature-colored wireframe if untextured)
+    const color = temperatureToColor(planet.temperature_k, minPlanetTemp, maxPlanetTemp)
+    const mesh = addAtmosphereLayers(createBodyObject(planet, geometry, radius, color, sunMesh), planet, radius, sunMesh)
+    mesh.position.copy(position)
     mesh.name = planet.name
+    // Lit by the Sun: casts and receives shadows (rings, moons)
+    enableShadows(mesh)
     // Tilt the planet around its local X-axis
     const tiltRad = THREE.MathUtils.degToRad(planet.axis_angle_deg ?? 0)
     mesh.rotateX(tiltRad)
     // Axis line for planet's rotation axis
-    const axisLength = radius * 2
-    const axisMaterial = new THREE.LineBasicMaterial({ color: AXIS_COLOR, opacity: AXIS_OPACITY, transparent: AXIS_TRANSPARENT })
-    const axisGeometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(0, -axisLength, 0),
-      new THREE.Vector3(0, axisLength, 0)
-    ])
-    const axisLine = new THREE.Line(axisGeometry, axisMaterial)
-    axisLine.name = `${planet.name}_axis`
-    mesh.add(axisLine)
+    mesh.add(createAxisLine(planet.name, radius))
+    // Radius the mesh was built with, the reference for later rescaling
+    mesh.userData.baseRadius = radius
     // Tag for CSS2D label (handled externally)
     mesh.userData.labelOffset = radius * 1.2
     mesh.userData.labelText = planet.name
+    mesh.userData.labelCategory = getLabelCategory(params, planet)
     meshes.push(mesh)
+
+    // --- Moons ---
+    planet.moons?.forEach(moon => {
+      meshes.push(...createMoonObjects(moon, planet, mesh, sceneScale, sunMesh, daysSinceJ2000, { min: minPlanetTemp, max: maxPlanetTemp }))
+    })
   })
 
+  // --- Comet tails (placed and sized every frame by updateSolarSystem) ---
+  params.comets?.forEach((comet, i) => meshes.push(createCometTail(comet.name, i + 1)))
+
   return meshes
 }
+
+/**
+ * Applies a scene mapping to objects created by createSolarSystemObjects without
+ * rebuilding them: bodies are rescaled relative to their build radius and orbit
+ * lines are recomputed. Used for animated transitions between scaling modes.
+ * @param params - Solar system parameters (sun, planets, dwarf planets and comets)
+ * @param meshes - Objects created by createSolarSystemObjects
+ * @param sceneScale - Scene mapping to apply
+ * @param daysSinceJ2000 - Simulation date the orbit lines are drawn for
+ */
+export function applySceneScale(
+  params: SolarParams,
+  meshes: THREE.Object3D[],
+  sceneScale: SceneScale,
+  daysSinceJ2000 = 0
+) {
+  const findMesh = (name: string) => meshes.find(m => m.name === name)
+  const rescale = (body: Body | Moon) => {
+    const mesh = findMesh(body.name)
+    if (mesh?.userData.baseRadius) mesh.scale.setScalar(sceneScale.bodyRadius(body.radius_km) / mesh.userData.baseRadius)
+    return mesh
+  }
+
+  rescale(params.sun)
+  getOrbitingBodies(params).forEach(planet => {
+    const mesh = rescale(planet)
+    const orbit = findMesh(`${planet.name}_orbit`)
+    const elements = getOrbitalElements(planet)
+    if (orbit instanceof THREE.Line && elements) {
+      const orbitVertices = createOrbitVertices(getElementsAtDate(elements, daysSinceJ2000), sceneScale.distance, getQualitySettings().orbitSegments)
+      const positions = orbit.geometry.getAttribute('position') as THREE.BufferAttribute
+      positions.copyArray(orbitVertices)
+      positions.needsUpdate = true
+      orbit.geometry.computeBoundingSphere()
+    }
+
+    planet.moons?.forEach(moon => {
+      rescale(moon)
+      // Moon distances are measured in parent radii, so moon orbits scale with the parent
+      const moonOrbit = findMesh(`${moon.name}_orbit`)
+      if (!moonOrbit || !mesh) return
+      moonOrbit.scale.copy(mesh.scale)
+      moonOrbit.userData.parentSceneRadius = sceneScale.bodyRadius(planet.radius_km)
+    })
+  })
+}
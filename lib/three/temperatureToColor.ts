@@ -2,7 +2,8 @@ import * as THREE from 'three'
 
 // Map temperature to color (blue=cold, yellow=hot)
 export function temperatureToColor(temp: number, min: number, max: number): THREE.Color {
-  const t = (temp - min) / (max - min)
+  // Clamp so bodies outside the reference range (e.g. moons) still get a valid hue
+  const t = THREE.MathUtils.clamp((temp - min) / (max - min), 0, 1)
   // Interpolate: 0 = blue (0.66), 1 = yellow (0.16)
   return new THREE.Color().setHSL(0.66 - 0.5 * t, 1, 0.5)
 } 
\ No newline at end of file
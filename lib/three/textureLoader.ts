@@ -1,43 +1,65 @@
 import * as THREE from 'three'
+import { assetLoader } from './assetLoader'
+import { getQualitySettings, resolveTexturePath } from './quality'
 
-let sunTexture: THREE.Texture | undefined;
-let mercuryTexture: THREE.Texture | undefined;
-let venusTexture: THREE.Texture | undefined;
-let earthTexture: THREE.Texture | undefined;
-let marsTexture: THREE.Texture | undefined;
-let jupiterTexture: THREE.Texture | undefined;
-let saturnTexture: THREE.Texture | undefined;
-let uranusTexture: THREE.Texture | undefined;
-let neptuneTexture: THREE.Texture | undefined;
-let saturnRingTexture: THREE.Texture | undefined; // Added for Saturn's rings
+// =========================
+// Type Definitions
+// =========================
 
-export function getPlanetTextures() {
-  if (typeof window === 'undefined') return {};
-  if (!sunTexture) {
-    sunTexture = new THREE.TextureLoader().load('/textures/planets/2k_sun.jpg');
-    mercuryTexture = new THREE.TextureLoader().load('/textures/planets/2k_mercury.jpg');
-    venusTexture = new THREE.TextureLoader().load('/textures/planets/2k_venus.jpg');
-    earthTexture = new THREE.TextureLoader().load('/textures/planets/2k_earth.jpg');
-    marsTexture = new THREE.TextureLoader().load('/textures/planets/2k_mars.jpg');
-    jupiterTexture = new THREE.TextureLoader().load('/textures/planets/2k_jupiter.jpg');
-    saturnTexture = new THREE.TextureLoader().load('/textures/planets/2k_saturn.jpg');
-    uranusTexture = new THREE.TextureLoader().load('/textures/planets/2k_uranus.jpg');
-    neptuneTexture = new THREE.TextureLoader().load('/textures/planets/2k_neptune.jpg');
-    // IMPORTANT: Update this path to your actual Saturn ring texture
-    saturnRingTexture = new THREE.TextureLoader().load('/textures/planets/2k_saturn_ring_alpha.png');
+// Per-body surface textures (from solar-params.json); every map is optional
+export interface BodyMaterialDescriptor {
+  map?: string // Diffuse (color) texture
+  normal_map?: string // Tangent-space normal map for relief shading
+  normal_scale?: number // Relief strength (1 = as authored)
+  specular_map?: string // Bright areas are glossy (e.g. oceans)
+  emissive_map?: string // Self-lit areas, on day and night side alike
+  night_map?: string // Emission shown on the night side only (e.g. city lights)
+  alternate_map?: string // Alternate diffuse look, switched from the GUI
+  ring_map?: string // Color/alpha texture of a ring system (e.g. Saturn's)
+  roughness?: number // Lit material roughness (default: matte)
+  metalness?: number // Lit material metalness (default: 0)
+}
 
-    mercuryTexture.colorSpace = THREE.SRGBColorSpace;
-    venusTexture.colorSpace = THREE.SRGBColorSpace;
-    marsTexture.colorSpace = THREE.SRGBColorSpace;
-    jupiterTexture.colorSpace = THREE.SRGBColorSpace;
-    saturnTexture.colorSpace = THREE.SRGBColorSpace;
-    uranusTexture.colorSpace = THREE.SRGBColorSpace;
-    neptuneTexture.colorSpace = THREE.SRGBColorSpace;
-    earthTexture.colorSpace = THREE.SRGBColorSpace;
-    sunTexture.colorSpace = THREE.SRGBColorSpace;
-    if (saturnRingTexture) {
-      saturnRingTexture.colorSpace = THREE.SRGBColorSpace;
-    }
+// Textures loaded from a BodyMaterialDescriptor
+export interface BodyTextures {
+  map?: THREE.Texture
+  normalMap?: THREE.Texture
+  specularMap?: THREE.Texture
+  emissiveMap?: THREE.Texture
+  nightMap?: THREE.Texture
+  alternateMap?: THREE.Texture
+  ringMap?: THREE.Texture
+}
+
+const textureCache = new Map<string, THREE.Texture>(); // Textures loaded by path, shared between layers and scene rebuilds
+
+/**
+ * Starts loading a texture file through the asset loader (progress, retries),
+ * without caching (see loadTexture), in the resolution of the quality tier.
+ * @param path - Texture URL (its size prefix is swapped for the tier's, see resolveTexturePath)
+ * @param isColor - True for color data (sRGB), false for data textures such as normal maps
+ * @param onError - Called if the file is missing or cannot be decoded
+ * @param critical - Whether the first frame waits for this texture
+ */
+export function loadTextureFile(path: string, isColor = true, onError?: () => void, critical = false): THREE.Texture {
+  return assetLoader.loadTexture(resolveTexturePath(path, getQualitySettings().textureSize), isColor, onError, critical);
+}
+
+/**
+ * Loads a texture once per path and reuses it afterwards (e.g. cloud layers).
+ * Missing files leave the texture empty (sampled as black) instead of failing.
+ * @param path - Texture URL
+ * @param isColor - True for color data (sRGB), false for data textures
+ * @returns The texture, or undefined outside the browser
+ */
+export function loadTexture(path: string, isColor = true): THREE.Texture | undefined {
+  if (typeof window === 'undefined') return undefined;
+  // Keyed by the resolved path, so another quality tier loads its own resolution
+  const resolvedPath = resolveTexturePath(path, getQualitySettings().textureSize);
+  let texture = textureCache.get(resolvedPath);
+  if (!texture) {
+    texture = loadTextureFile(path, isColor);
+    textureCache.set(resolvedPath, texture);
   }
-  return { sunTexture, mercuryTexture, venusTexture, earthTexture, marsTexture, jupiterTexture, saturnTexture, uranusTexture, neptuneTexture, saturnRingTexture };
-} 
\ No newline at end of file
+  return texture;
+}
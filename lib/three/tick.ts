@@ -1,22 +1,102 @@
 // Tick function for solar system animation
 import * as THREE from 'three'
-import type { Body } from './solarSystem'
+import type { Body, Moon } from './solarSystem'
+import { getOrbitalElements, toScenePosition, type DistanceScale } from './orbits'
+import { getPositionAtDate } from './ephemeris'
+import { getSatelliteDistanceScale } from './scaling'
+import { updateCometTail } from './cometTail'
+import { spinClouds } from './atmosphere'
+import type { ReferenceFrame } from './referenceFrame'
 
 interface UpdateOptions {
-  orbitPaused?: boolean
   spinPaused?: boolean
+  // Simulation date as days since the J2000 epoch (drives orbital positions)
+  daysSinceJ2000?: number
+  // Heliocentric distance → scene distance mapping (same one used for the orbit lines)
+  distanceScale?: DistanceScale
+  // Frame whose body is kept fixed once every body has moved
+  referenceFrame?: ReferenceFrame
 }
 
 // Smoothing factor for gradual spin pause/resume
 const SPIN_LERP_ALPHA = 0.01
+// Converts performance.now() to seconds for the comet tail particle flow
+const MS_PER_SECOND = 1000
 // Current spin weight (1 = full speed, 0 = stopped)
 let spinWeight = 1
+// Objects by name per meshes array, built on its first update so frames skip the linear searches
+const objectIndexes = new WeakMap<THREE.Object3D[], Map<string, THREE.Object3D>>()
 
 /**
- * Updates rotation around axis and orbital revolution of planets.
- * @param bodies - Array of planet data with speeds and distances
+ * Finds a scene object by name, through an index built once per meshes array
+ * (the array is created with the scene and not changed afterwards).
+ * @param meshes - Objects created for the solar system
+ * @param name - Object name
+ */
+function findObject(meshes: THREE.Object3D[], name: string): THREE.Object3D | undefined {
+  let index = objectIndexes.get(meshes)
+  if (!index) {
+    index = new Map()
+    for (const mesh of meshes) {
+      if (!index.has(mesh.name)) index.set(mesh.name, mesh)
+    }
+    objectIndexes.set(meshes, index)
+  }
+  return index.get(name)
+}
+
+/**
+ * Rotates a body around its own (tilted) axis, and its cloud layer by its own period.
+ * Angular speed (rad/s) = rotation_speed_kmh (km/h) / (radius_km * 3600)
+ */
+function spinBody(body: Body | Moon, obj: THREE.Object3D, deltaSec: number) {
+  const rawRad = (body.rotation_speed_kmh / (body.radius_km * 3600)) * deltaSec
+  const axisRad = rawRad * spinWeight
+  const bodyMesh = obj.getObjectByName(`${body.name}_body`)
+  if (bodyMesh instanceof THREE.Mesh) {
+    bodyMesh.rotation.y += axisRad
+  } else if (obj instanceof THREE.Mesh) {
+    obj.rotation.y += axisRad
+  }
+  spinClouds(obj, body.name, deltaSec, spinWeight)
+}
+
+/**
+ * Moves a moon and its orbit line along with the parent planet.
+ * The orbit line carries the moon's reference plane orientation, so the
+ * moon offset is computed in that local frame and rotated by it.
+ */
+function updateMoon(
+  moon: Moon,
+  parent: Body,
+  parentObj: THREE.Object3D,
+  meshes: THREE.Object3D[],
+  deltaSec: number,
+  daysSinceJ2000: number | undefined,
+  offset: THREE.Vector3
+) {
+  const obj = findObject(meshes, moon.name)
+  const orbit = findObject(meshes, `${moon.name}_orbit`)
+  if (!obj || !orbit) return
+
+  spinBody(moon, obj, deltaSec)
+
+  orbit.position.copy(parentObj.position)
+  if (daysSinceJ2000 === undefined) return
+  const distanceScale = getSatelliteDistanceScale(parent.radius_km, orbit.userData.parentSceneRadius)
+  getPositionAtDate(moon.orbit, daysSinceJ2000, offset)
+  toScenePosition(offset, distanceScale, offset).applyQuaternion(orbit.quaternion)
+  obj.position.copy(orbit.position).add(offset)
+}
+
+/**
+ * Updates rotation around axis and orbital revolution of planets, comets and their moons.
+ * Orbital positions are evaluated for the simulation date (not integrated
+ * from frame deltas), so any date shows the real planetary configuration.
+ * @param bodies - Array of planet data with speeds and orbital elements
  * @param meshes - Array of objects (meshes) created for the solar system
- * @param deltaSec - Time elapsed since last frame in seconds
+ * @param deltaSec - Simulated time elapsed since last frame in seconds (drives spin)
+ * @param options - Spin pause flag, simulation date, the distance mapping for orbit positions and the reference frame
  */
 export function updateSolarSystem(
   bodies: Body[],
@@ -25,32 +105,33 @@ export function updateSolarSystem(
   options: UpdateOptions = {}
 ) {
   // Destructure pause flags
-  const upAxis = new THREE.Vector3(0, 1, 0)
-  const { orbitPaused = false, spinPaused = false } = options
+  const positionMkm = new THREE.Vector3()
+  const { spinPaused = false, daysSinceJ2000, distanceScale, referenceFrame } = options
   // Gradually adjust spin weight towards target (0 if paused, 1 if running)
   spinWeight = THREE.MathUtils.lerp(spinWeight, spinPaused ? 0 : 1, SPIN_LERP_ALPHA)
 
   bodies.forEach(body => {
     // Find the corresponding mesh by name
-    const obj = meshes.find(m => m.name === body.name)
+    const obj = findObject(meshes, body.name)
     if (!obj) return
 
     // Rotate around its own axis with gradual pause/resume
-    // Angular speed (rad/s) = rotation_speed_kmh (km/h) / (radius_km * 3600)
-    const rawRad = (body.rotation_speed_kmh / (body.radius_km * 3600)) * deltaSec
-    const axisRad = rawRad * spinWeight
-    const bodyMesh = obj.getObjectByName(`${body.name}_body`)
-    if (bodyMesh instanceof THREE.Mesh) {
-      bodyMesh.rotation.y += axisRad
-    } else if (obj instanceof THREE.Mesh) {
-      obj.rotation.y += axisRad
-    }
+    spinBody(body, obj, deltaSec)
+
+    // Orbit around the sun along the Keplerian ellipse for the current date
+    const elements = getOrbitalElements(body)
+    if (elements && distanceScale && daysSinceJ2000 !== undefined) {
+      getPositionAtDate(elements, daysSinceJ2000, positionMkm)
+      toScenePosition(positionMkm, distanceScale, obj.position)
 
-    // Orbit around the sun
-    if (!orbitPaused && body.distance_from_sun_million_km > 0) {
-      const distanceKm = body.distance_from_sun_million_km * 1e6
-      const orbitalRad = (body.orbital_speed_kms / distanceKm) * deltaSec
-      obj.position.applyAxisAngle(upAxis, orbitalRad)
+      // Comet tails follow the nucleus and point away from the Sun
+      const tail = findObject(meshes, `${body.name}_tail`)
+      if (tail) updateCometTail(tail, obj.position, positionMkm, elements, distanceScale, performance.now() / MS_PER_SECOND)
     }
+
+    // Moons follow their parent, so update them after it has moved
+    body.moons?.forEach(moon => updateMoon(moon, body, obj, meshes, deltaSec, daysSinceJ2000, positionMkm))
   })
+
+  referenceFrame?.update()
 } 
\ No newline at end of file
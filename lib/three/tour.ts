@@ -0,0 +1,319 @@
+/**
+ * TourPlayer: guided tours, i.e. scripted camera flights from body to body
+ *
+ * Tours are authored as JSON (see info/tours.json): each stop names a body,
+ * where the camera sits around it (distance, azimuth from the Sun side,
+ * elevation), how long the flight there and the stay take, the easing, a
+ * narration and optionally a time rate. The camera flies along a spline
+ * through the stops, recomputed every frame so it follows the moving bodies.
+ *
+ * Events emitted:
+ * - 'change': When a tour starts, pauses, resumes, reaches a new stop or stops
+ * - 'end': When a tour finishes or is stopped
+ */
+import * as THREE from 'three'
+import { EventEmitter } from 'events'
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { clearTracking, focusOnObject } from './objectTrackingCamera'
+import { getBodySceneRadius } from './solarSystem'
+import { TIME_RATE_PRESETS, type SimulationClock } from './simulationClock'
+
+// =========================
+// Tour constants
+// =========================
+const DEFAULT_OFFSET_RADII = 4 // Camera distance from a stop's body, in body radii
+const DEFAULT_AZIMUTH_DEG = 30 // Camera angle around the body, from the Sun side (0 = looking at the day side)
+const DEFAULT_ELEVATION_DEG = 15 // Camera angle above the ecliptic plane
+const DEFAULT_FLIGHT_SEC = 6 // Flight time to a stop
+const DEFAULT_HOLD_SEC = 4 // Time spent at a stop before flying on
+const RESUME_FLIGHT_SEC = 2 // Shortest flight back onto the tour after resuming (the camera may have moved)
+const SPLINE_TENSION = 0.5 // Catmull-Rom tension of the centripetal path through the stops
+
+// =========================
+// Type Definitions
+// =========================
+
+// Easing of a flight; unknown names fall back to 'ease-in-out'
+export type TourEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out'
+
+// One stop of a tour, as stored in tours.json
+export interface TourStop {
+  target: string // Body name
+  offset_radii?: number
+  azimuth_deg?: number
+  elevation_deg?: number
+  duration_s?: number // Flight time from the previous stop
+  hold_s?: number // Time spent at the stop
+  easing?: string // TourEasing
+  narration?: string
+  time_rate?: string // Preset label from TIME_RATE_PRESETS, applied from the start of the flight
+}
+
+// A guided tour, as stored in tours.json
+export interface Tour {
+  name: string
+  description?: string
+  stops: TourStop[]
+}
+
+// A stop whose body was found in the scene
+interface ResolvedStop {
+  stop: TourStop
+  body: THREE.Object3D
+}
+
+const EASINGS: Record<TourEasing, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => THREE.MathUtils.smootherstep(t, 0, 1),
+}
+
+// =========================
+// Tour player
+// =========================
+
+/**
+ * Plays tours with the scene camera. While a tour plays it owns the camera:
+ * tracking is cleared and the orbit controls are disabled (pausing hands them
+ * back). At the end the camera keeps tracking the last body.
+ */
+export class TourPlayer extends EventEmitter {
+  private clock: SimulationClock
+  private camera: THREE.PerspectiveCamera | null = null
+  private controls: OrbitControls | null = null
+  private resolveTarget: (name: string) => THREE.Object3D | undefined = () => undefined
+  private sun: THREE.Object3D | null = null
+  private tourValue: Tour | null = null
+  private stops: ResolvedStop[] = []
+  private index = 0
+  private pausedValue = false
+  private savedRate = 0
+  // Current leg: flight from the camera pose it started at, then the stay at stop `index`
+  private elapsed = 0
+  private flightSec = 0
+  private holdSec = 0
+  private legOrigin: THREE.Object3D | null = null // Body the start pose is relative to (it may move)
+  private startOffset = new THREE.Vector3()
+  private startLook = new THREE.Vector3()
+  private path = new THREE.CatmullRomCurve3(
+    [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()],
+    false,
+    'centripetal',
+    SPLINE_TENSION
+  )
+
+  /**
+   * @param clock - Simulation clock, for the stops' time rates
+   */
+  constructor(clock: SimulationClock) {
+    super()
+    this.clock = clock
+  }
+
+  get tour() { return this.tourValue }
+  get playing() { return this.tourValue !== null }
+  get paused() { return this.pausedValue }
+  get stopIndex() { return this.index }
+  get stopCount() { return this.stops.length }
+  get narration() { return this.stops[this.index]?.stop.narration ?? '' }
+  // Body the camera is heading to or staying at (the floating origin's focus)
+  get focus() { return this.playing ? this.stops[this.index].body : null }
+
+  /**
+   * Connects the player to a scene (again after the scene is rebuilt).
+   * @param camera - Scene camera
+   * @param controls - Orbit controls of the camera
+   * @param resolveTarget - Finds a body by name
+   * @param sun - Sun mesh, the reference of the stops' azimuth
+   */
+  attach(
+    camera: THREE.PerspectiveCamera,
+    controls: OrbitControls,
+    resolveTarget: (name: string) => THREE.Object3D | undefined,
+    sun: THREE.Object3D
+  ) {
+    this.camera = camera
+    this.controls = controls
+    this.resolveTarget = resolveTarget
+    this.sun = sun
+  }
+
+  // Stops any tour and lets go of the scene
+  detach() {
+    this.stop()
+    this.camera = null
+    this.controls = null
+    this.sun = null
+  }
+
+  /**
+   * Starts a tour from the current camera pose. Stops naming unknown bodies are skipped.
+   * @param tour - Tour to play
+   */
+  play(tour: Tour) {
+    if (!this.camera || !this.controls) return
+    const stops = tour.stops.flatMap(stop => {
+      const body = this.resolveTarget(stop.target)
+      if (!body) console.warn(`Tour "${tour.name}": unknown target ${stop.target}`)
+      return body ? [{ stop, body }] : []
+    })
+    if (!stops.length) return
+    if (!this.playing) this.savedRate = this.clock.rate
+    this.tourValue = tour
+    this.stops = stops
+    this.pausedValue = false
+    this.controls.enabled = false
+    clearTracking()
+    this.beginLeg(0)
+  }
+
+  // Freezes the tour and hands the camera back to the orbit controls
+  pause() {
+    if (!this.playing || this.pausedValue) return
+    this.pausedValue = true
+    if (this.controls) this.controls.enabled = true
+    this.emit('change')
+  }
+
+  /**
+   * Continues a paused tour from wherever the camera is now: the rest of the
+   * flight (at least RESUME_FLIGHT_SEC), then the rest of the stay.
+   */
+  resume() {
+    if (!this.playing || !this.pausedValue) return
+    this.pausedValue = false
+    if (this.controls) this.controls.enabled = false
+    clearTracking()
+    const stayed = Math.max(0, this.elapsed - this.flightSec)
+    const flightSec = Math.max(RESUME_FLIGHT_SEC, this.flightSec - this.elapsed)
+    this.beginLeg(this.index, flightSec, Math.max(0, this.holdSec - stayed))
+  }
+
+  togglePause() {
+    if (this.pausedValue) this.resume()
+    else this.pause()
+  }
+
+  // Flies on to the next stop right away (finishes the tour at the last one)
+  skip() {
+    if (!this.playing) return
+    if (this.index + 1 >= this.stops.length) {
+      this.finish()
+      return
+    }
+    this.pausedValue = false
+    if (this.controls) this.controls.enabled = false
+    clearTracking()
+    this.beginLeg(this.index + 1)
+  }
+
+  // Ends the tour, leaving the camera where it is
+  stop() {
+    if (!this.playing) return
+    this.end()
+  }
+
+  /**
+   * Moves the camera along the tour. Call once per frame, after the bodies
+   * moved, instead of the tracking camera update.
+   * @param realDeltaSec - Real (wall clock) seconds since the last frame
+   * @returns Whether the tour drove the camera this frame
+   */
+  update(realDeltaSec: number): boolean {
+    if (!this.playing || this.pausedValue || !this.camera || !this.controls) return false
+    this.elapsed += realDeltaSec
+    if (this.elapsed >= this.flightSec + this.holdSec) {
+      if (this.index + 1 >= this.stops.length) {
+        this.finish()
+        return false
+      }
+      this.beginLeg(this.index + 1)
+    }
+    const { stop, body } = this.stops[this.index]
+    const t = this.flightSec > 0 ? THREE.MathUtils.clamp(this.elapsed / this.flightSec, 0, 1) : 1
+    const eased = (EASINGS[stop.easing as TourEasing] ?? EASINGS['ease-in-out'])(t)
+
+    // Spline through the stop before the leg, the leg's start and end, and the next stop
+    const originPos = this.legOrigin!.getWorldPosition(new THREE.Vector3())
+    const [before, start, end, after] = this.path.points
+    start.copy(originPos).add(this.startOffset)
+    this.getStopPose(this.index, end)
+    if (this.index >= 2) this.getStopPose(this.index - 2, before)
+    else before.copy(start)
+    if (this.index + 1 < this.stops.length) this.getStopPose(this.index + 1, after)
+    else after.copy(end)
+    // The leg is the middle of the path's three segments
+    this.path.getPoint((1 + eased) / 3, this.camera.position)
+
+    const look = originPos.add(this.startLook).lerp(body.getWorldPosition(new THREE.Vector3()), eased)
+    this.controls.target.copy(look)
+    this.camera.lookAt(look)
+    return true
+  }
+
+  /**
+   * Starts the flight to a stop from the current camera pose, stored relative
+   * to the previous stop's body (or the stop's own body for the first one).
+   * @param index - Stop to fly to
+   * @param flightSec - Flight time (defaults to the stop's)
+   * @param holdSec - Stay (defaults to the stop's)
+   */
+  private beginLeg(index: number, flightSec?: number, holdSec?: number) {
+    const { stop, body } = this.stops[index]
+    this.index = index
+    this.elapsed = 0
+    this.flightSec = flightSec ?? stop.duration_s ?? DEFAULT_FLIGHT_SEC
+    this.holdSec = holdSec ?? stop.hold_s ?? DEFAULT_HOLD_SEC
+    this.legOrigin = index > 0 ? this.stops[index - 1].body : body
+    const originPos = this.legOrigin.getWorldPosition(new THREE.Vector3())
+    this.startOffset.copy(this.camera!.position).sub(originPos)
+    this.startLook.copy(this.controls!.target).sub(originPos)
+    const rate = stop.time_rate ? TIME_RATE_PRESETS[stop.time_rate] : undefined
+    if (rate !== undefined) this.clock.setRate(rate)
+    this.emit('change')
+  }
+
+  /**
+   * Camera position at a stop: around its body at the stop's distance, with
+   * the azimuth measured from the direction of the Sun.
+   * @param index - Stop
+   * @param target - Vector to write into (world space)
+   */
+  private getStopPose(index: number, target: THREE.Vector3): THREE.Vector3 {
+    const { stop, body } = this.stops[index]
+    const center = body.getWorldPosition(new THREE.Vector3())
+    const sunward = this.sun!.getWorldPosition(new THREE.Vector3()).sub(center)
+    // The Sun itself (or a body on top of it) has no Sun side: measure from +Z
+    const baseAzimuth = sunward.lengthSq() > 0 ? Math.atan2(sunward.x, sunward.z) : 0
+    const azimuth = baseAzimuth + THREE.MathUtils.degToRad(stop.azimuth_deg ?? DEFAULT_AZIMUTH_DEG)
+    const elevation = THREE.MathUtils.degToRad(stop.elevation_deg ?? DEFAULT_ELEVATION_DEG)
+    const distance = getBodySceneRadius(body) * (stop.offset_radii ?? DEFAULT_OFFSET_RADII)
+    return target.set(
+      Math.cos(elevation) * Math.sin(azimuth),
+      Math.sin(elevation),
+      Math.cos(elevation) * Math.cos(azimuth)
+    ).multiplyScalar(distance).add(center)
+  }
+
+  // Hands the camera to the tracker on the last body, so it keeps following it
+  private finish() {
+    const { stop, body } = this.stops[this.stops.length - 1]
+    const radius = getBodySceneRadius(body)
+    this.end()
+    focusOnObject(body, radius, radius * (stop.offset_radii ?? DEFAULT_OFFSET_RADII))
+  }
+
+  // Restores the time rate and the orbit controls
+  private end() {
+    this.tourValue = null
+    this.stops = []
+    this.index = 0
+    this.pausedValue = false
+    this.legOrigin = null
+    if (this.controls) this.controls.enabled = true
+    this.clock.setRate(this.savedRate)
+    this.emit('change')
+    this.emit('end')
+  }
+}
@@ -0,0 +1,190 @@
+// Orbit trails: fading lines behind bodies showing the path actually travelled,
+// recorded relative to the reference frame body (e.g. Earth, to see retrograde loops)
+import * as THREE from 'three'
+
+// =========================
+// Trail constants
+// =========================
+const TRAIL_SEGMENTS = 1024 // Segments per trail (ring buffer size); one is recorded per length / TRAIL_SEGMENTS days
+const TRAIL_COLOR = 0x66ccff // Light blue, apart from the white orbit lines
+const TRAIL_OPACITY = 0.8 // Opacity at the body, fading to 0 at the end of the trail
+const EMPTY_SEGMENT_DAYS = -1e9 // Sample time of unwritten segments (always older than the trail length)
+export const TRAIL_LENGTH_MIN_DAYS = 10 // Shortest trail in the GUI
+export const TRAIL_LENGTH_MAX_DAYS = 3650 // Longest trail in the GUI (ten years)
+
+// =========================
+// Type Definitions
+// =========================
+
+export interface TrailSettings {
+  enabled: boolean
+  lengthDays: number // Simulated time covered by the trail
+}
+
+export const DEFAULT_TRAIL_SETTINGS: TrailSettings = {
+  enabled: false,
+  lengthDays: 365,
+}
+
+// One body's trail: a GPU ring buffer of line segments, each stamped with its sample time
+interface Trail {
+  body: THREE.Object3D
+  line: THREE.LineSegments
+  head: number // Next segment to overwrite
+  lastPosition: THREE.Vector3 // Last sample, relative to the frame body
+}
+
+// =========================
+// Shaders
+// =========================
+const trailVertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+  attribute float aDays;
+  uniform float uDays;
+  varying float vAge;
+
+  void main() {
+    // Age in simulated days (either direction, so trails also fade when time runs backwards)
+    vAge = abs(uDays - aDays);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    #include <logdepthbuf_vertex>
+  }
+`
+
+const trailFragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  uniform float uLength;
+  varying float vAge;
+
+  void main() {
+    #include <logdepthbuf_fragment>
+    if (vAge > uLength) discard;
+    gl_FragColor = vec4(uColor, uOpacity * (1.0 - vAge / uLength));
+  }
+`
+
+// =========================
+// Trail manager
+// =========================
+
+/**
+ * Records and draws the trails of a set of bodies. The trails are drawn in
+ * `group`, which must share a parent with the bodies (the reference frame
+ * root) and is kept at the frame body's position.
+ */
+export class TrailManager {
+  readonly group = new THREE.Group()
+  private trails: Trail[]
+  private frame: THREE.Object3D | null = null
+  private lengthDays = DEFAULT_TRAIL_SETTINGS.lengthDays
+  private lastDays: number | null = null // Time of the last sample (null until the first one)
+
+  /**
+   * @param bodies - Bodies to record (positioned in the reference frame root's coordinates)
+   */
+  constructor(bodies: THREE.Object3D[]) {
+    this.group.name = 'trails'
+    this.trails = bodies.map(body => {
+      const geometry = new THREE.BufferGeometry()
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TRAIL_SEGMENTS * 2 * 3), 3))
+      geometry.setAttribute('aDays', new THREE.BufferAttribute(new Float32Array(TRAIL_SEGMENTS * 2).fill(EMPTY_SEGMENT_DAYS), 1))
+      const material = new THREE.ShaderMaterial({
+        uniforms: {
+          uColor: { value: new THREE.Color(TRAIL_COLOR) },
+          uOpacity: { value: TRAIL_OPACITY },
+          uLength: { value: this.lengthDays },
+          uDays: { value: 0 },
+        },
+        vertexShader: trailVertexShader,
+        fragmentShader: trailFragmentShader,
+        transparent: true,
+        depthWrite: false,
+      })
+      const line = new THREE.LineSegments(geometry, material)
+      line.name = `${body.name}_trail`
+      // The ring buffer is rewritten in place, so its bounds are never up to date
+      line.frustumCulled = false
+      this.group.add(line)
+      return { body, line, head: 0, lastPosition: new THREE.Vector3() }
+    })
+  }
+
+  /**
+   * Applies the settings. Changing the frame body restarts the trails.
+   * @param settings - Trail settings
+   * @param frame - Body the trails are recorded around (the reference frame body)
+   */
+  apply(settings: TrailSettings, frame: THREE.Object3D) {
+    this.group.visible = settings.enabled
+    this.lengthDays = settings.lengthDays
+    this.trails.forEach(({ line }) => { (line.material as THREE.ShaderMaterial).uniforms.uLength.value = settings.lengthDays })
+    if (frame !== this.frame) {
+      this.frame = frame
+      this.clear()
+    }
+  }
+
+  /**
+   * Forgets the recorded paths (e.g. after the scene scale changed).
+   */
+  clear() {
+    this.trails.forEach(({ line }) => {
+      const days = line.geometry.getAttribute('aDays') as THREE.BufferAttribute
+      const array = days.array as Float32Array
+      array.fill(EMPTY_SEGMENT_DAYS)
+      // Upload the whole buffer, not just the segments written since the last frame
+      days.clearUpdateRanges()
+      days.needsUpdate = true
+    })
+    this.lastDays = null
+  }
+
+  /**
+   * Records a segment per body once enough simulated time has passed, and
+   * moves the trails along with the frame body. A jump longer than the trail
+   * (e.g. a new date picked) restarts the trails.
+   * @param daysSinceJ2000 - Simulation time
+   */
+  update(daysSinceJ2000: number) {
+    if (!this.frame || !this.group.visible) return
+    this.group.position.copy(this.frame.position)
+    this.trails.forEach(({ line }) => { (line.material as THREE.ShaderMaterial).uniforms.uDays.value = daysSinceJ2000 })
+    const elapsed = this.lastDays === null ? Infinity : Math.abs(daysSinceJ2000 - this.lastDays)
+    if (elapsed < this.lengthDays / TRAIL_SEGMENTS) return
+    const restart = elapsed > this.lengthDays
+    if (restart) this.clear()
+    this.trails.forEach(trail => {
+      const position = trail.body.position.clone().sub(this.group.position)
+      if (!restart) this.writeSegment(trail, position, this.lastDays!, daysSinceJ2000)
+      trail.lastPosition.copy(position)
+    })
+    this.lastDays = daysSinceJ2000
+  }
+
+  /**
+   * Overwrites the oldest segment with one from the last sample to the current
+   * position, uploading only that segment.
+   * @param trail - Trail to extend
+   * @param position - Current position, relative to the frame body
+   * @param fromDays - Time of the last sample
+   * @param toDays - Current time
+   */
+  private writeSegment(trail: Trail, position: THREE.Vector3, fromDays: number, toDays: number) {
+    const geometry = trail.line.geometry
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute
+    const days = geometry.getAttribute('aDays') as THREE.BufferAttribute
+    const start = trail.head * 2
+    positions.setXYZ(start, trail.lastPosition.x, trail.lastPosition.y, trail.lastPosition.z)
+    positions.setXYZ(start + 1, position.x, position.y, position.z)
+    days.setX(start, fromDays)
+    days.setX(start + 1, toDays)
+    positions.addUpdateRange(start * 3, 2 * 3)
+    days.addUpdateRange(start, 2)
+    positions.needsUpdate = true
+    days.needsUpdate = true
+    trail.head = (trail.head + 1) % TRAIL_SEGMENTS
+  }
+}
@@ -7,3 +7,16 @@ export const makeLogScale = (domainMin: number, domainMax: number) =>
     const logVal = Math.log10(value)
     return offset + ((logVal - logMin) / (logMax - logMin)) * span
   }
+
+// Deterministic pseudo-random generator (mulberry32) for reproducible procedural content.
+// Usage: const random = makeSeededRandom(42); random() // → [0, 1)
+export const makeSeededRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
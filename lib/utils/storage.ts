@@ -0,0 +1,43 @@
+/**
+ * Per-user settings persisted in the browser (localStorage)
+ */
+
+/**
+ * Reads stored settings, filling keys missing from storage (e.g. settings added
+ * since they were saved) with the defaults. Stored keys the defaults don't have,
+ * or whose type differs from the default's (stale or hand-edited entries), are ignored.
+ * @param key - Storage key
+ * @param defaults - Settings used when nothing (valid) is stored
+ * @returns A new settings object
+ */
+export function loadSettings<T extends object>(key: string, defaults: T): T {
+  const settings = { ...defaults }
+  if (typeof window === 'undefined') return settings
+  try {
+    const stored = window.localStorage.getItem(key)
+    const parsed: unknown = stored ? JSON.parse(stored) : null
+    if (!parsed || typeof parsed !== 'object') return settings
+    for (const name of Object.keys(defaults) as (keyof T)[]) {
+      const value = (parsed as Partial<T>)[name]
+      if (value !== null && typeof value === typeof defaults[name]) settings[name] = value as T[keyof T]
+    }
+    return settings
+  } catch {
+    // Storage disabled (private mode) or corrupted value
+    return { ...defaults }
+  }
+}
+
+/**
+ * Stores settings for the next visit. Fails silently when storage is unavailable.
+ * @param key - Storage key
+ * @param settings - Settings to store (JSON-serializable)
+ */
+export function saveSettings<T extends object>(key: string, settings: T) {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(key, JSON.stringify(settings))
+  } catch {
+    // Storage full or disabled: the settings only last for this visit
+  }
+}